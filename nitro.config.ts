@@ -1,4 +1,35 @@
 export default defineNitroConfig({
   srcDir: "server",
   compatibilityDate: "2025-07-27",
+  experimental: {
+    tasks: true,
+  },
+  scheduledTasks: {
+    // Re-poll Sage inventory for active restock watches
+    "*/30 * * * *": ["inventory:poll-watches"],
+    // Keep the Drive push notification channel alive (no-op until
+    // GOOGLE_DRIVE_WEBHOOK_URL is set), catch up on any changes whose
+    // notifications were dropped, and pick up canvas and pin changes in the
+    // channels listed in KNOWLEDGE_SLACK_CHANNELS
+    "0 * * * *": [
+      "knowledge:renew-drive-watch",
+      "knowledge:sync-drive-changes",
+      "knowledge:sync-slack",
+    ],
+  },
+  storage: {
+    // Persistent app state (restock watches, etc.). Uses Vercel KV when it is
+    // configured, otherwise falls back to in-memory storage.
+    agent: process.env.KV_REST_API_URL
+      ? { driver: "vercelKV", base: "agent" }
+      : { driver: "memory" },
+    // Sage Connect response cache. In-memory locally, shared in Vercel KV
+    // in production so cache hits survive cold starts.
+    "sage-cache": process.env.KV_REST_API_URL
+      ? { driver: "vercelKV", base: "sage-cache" }
+      : { driver: "memory" },
+  },
+  devStorage: {
+    agent: { driver: "fs", base: ".data/agent" },
+  },
 });
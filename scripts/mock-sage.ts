@@ -0,0 +1,275 @@
+import "dotenv/config";
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+/**
+ * Fixture-driven stand-in for the Sage Connect API.
+ *
+ *   npm run mock:sage
+ *   SAGE_API_URL=http://localhost:4010 npm run dev
+ *
+ * Responses come from fixtures/sage-connect/service-<id>.json. A fixture named
+ * service-105-<prodEId>.json or service-107-<productId>.json takes precedence
+ * for that product.
+ *
+ * Errors can be forced per request with query parameters on SAGE_API_URL
+ * (`?errNum=10013` or `?errNum=10501&serviceId=105`) or for the whole run with
+ * MOCK_SAGE_ERRORS (`10013` or `105:10501,107:10701`).
+ *
+ * Tests start it in-process with createMockSageServer().
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const FIXTURES_DIR = path.join(__dirname, "..", "fixtures", "sage-connect");
+const PORT = Number.parseInt(process.env.MOCK_SAGE_PORT ?? "4010", 10);
+const SUPPORTED_SERVICES = [101, 103, 105, 107];
+
+// Sage's own error for each service when its data can't be found; anything
+// else reports the service as unavailable
+const MISSING_FIXTURE_ERRORS: Record<number, number> = {
+  105: 10501,
+  107: 10701,
+};
+const SERVICE_UNAVAILABLE = 10002;
+
+export interface MockSageCredentials {
+  acctId: number;
+  loginId: string;
+  key: string;
+}
+
+export interface MockSageOptions {
+  credentials?: MockSageCredentials;
+  // Service ID (or "*" for all) to errNum, as parsed from MOCK_SAGE_ERRORS
+  forcedErrors?: Map<number | "*", number>;
+  fixturesDir?: string;
+  log?: boolean;
+}
+
+interface SageRequestBody {
+  serviceId?: number;
+  apiVer?: number;
+  auth?: { acctId?: number; loginId?: string; key?: string };
+  search?: { keywords?: string };
+  resultOptions?: { offset?: number; limit?: number };
+  prodEId?: number;
+  productId?: string | number;
+}
+
+type SageFixture = { errNum?: number } & Record<string, unknown>;
+
+interface SearchFixture extends SageFixture {
+  products: unknown[];
+}
+
+interface ProductFixture extends SageFixture {
+  product: Record<string, unknown>;
+}
+
+type SagePayload = SageFixture;
+
+export function parseForcedErrors(value?: string): Map<number | "*", number> {
+  const errors = new Map<number | "*", number>();
+  for (const entry of (value ?? "").split(",").filter(Boolean)) {
+    const [serviceOrError, errNum] = entry.split(":");
+    if (errNum) {
+      errors.set(
+        Number.parseInt(serviceOrError, 10),
+        Number.parseInt(errNum, 10),
+      );
+    } else {
+      errors.set("*", Number.parseInt(serviceOrError, 10));
+    }
+  }
+  return errors;
+}
+
+// Accept whatever the app is configured with so the same .env works for both
+const credentialsFromEnv = (): MockSageCredentials => ({
+  acctId: Number.parseInt(process.env.SAGE_ACCOUNT_ID ?? "12345", 10),
+  loginId: process.env.SAGE_LOGIN_ID ?? "mock",
+  key: process.env.SAGE_API_KEY ?? "mock-key",
+});
+
+function readFixture<T extends SageFixture = SageFixture>(
+  fixturesDir: string,
+  name: string,
+): T | undefined {
+  const file = path.join(fixturesDir, `${name}.json`);
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as T;
+}
+
+function findForcedError(
+  url: URL,
+  serviceId: number,
+  forcedErrors: Map<number | "*", number>,
+): number | undefined {
+  const errNum = url.searchParams.get("errNum");
+  const onlyService = url.searchParams.get("serviceId");
+  if (errNum && (!onlyService || Number(onlyService) === serviceId)) {
+    return Number.parseInt(errNum, 10);
+  }
+  return forcedErrors.get(serviceId) ?? forcedErrors.get("*");
+}
+
+function authenticate(
+  body: SageRequestBody,
+  credentials: MockSageCredentials,
+): number | undefined {
+  if (!body.apiVer) return 10006;
+  if (!Number.isInteger(body.auth?.acctId)) return 10007;
+  if (
+    body.auth?.acctId !== credentials.acctId ||
+    body.auth?.loginId !== credentials.loginId ||
+    body.auth?.key !== credentials.key
+  ) {
+    return 10008;
+  }
+  return undefined;
+}
+
+function searchProducts(
+  fixture: SearchFixture,
+  body: SageRequestBody,
+): SagePayload {
+  const keywords = String(body.search?.keywords ?? "")
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  // Fall back to every fixture product so any search returns something
+  const matching = fixture.products.filter((product) => {
+    const haystack = JSON.stringify(product).toLowerCase();
+    return keywords.some((keyword) => haystack.includes(keyword));
+  });
+  const products = matching.length > 0 ? matching : fixture.products;
+
+  const offset = body.resultOptions?.offset ?? 0;
+  const limit = body.resultOptions?.limit ?? 25;
+
+  return {
+    ...fixture,
+    products: products.slice(offset, offset + limit),
+    totalFound: products.length,
+    offset,
+    limit,
+  };
+}
+
+/**
+ * Answer one Sage Connect request the way Sage would: a payload on success,
+ * `{ errNum }` otherwise, including when there is no fixture for it.
+ */
+export function respondToSageRequest(
+  url: URL,
+  body: SageRequestBody,
+  {
+    credentials = credentialsFromEnv(),
+    forcedErrors = new Map(),
+    fixturesDir = FIXTURES_DIR,
+  }: MockSageOptions = {},
+): SagePayload {
+  const serviceId = Number(body.serviceId);
+  if (!SUPPORTED_SERVICES.includes(serviceId)) return { errNum: 10009 };
+
+  const authError = authenticate(body, credentials);
+  if (authError) return { errNum: authError };
+
+  const forcedError = findForcedError(url, serviceId, forcedErrors);
+  if (forcedError) return { errNum: forcedError };
+
+  const missing = {
+    errNum: MISSING_FIXTURE_ERRORS[serviceId] ?? SERVICE_UNAVAILABLE,
+  };
+  const fixture = <T extends SageFixture>(name: string) =>
+    readFixture<T>(fixturesDir, name);
+
+  switch (serviceId) {
+    case 103: {
+      const search = fixture<SearchFixture>("service-103");
+      return search ? searchProducts(search, body) : missing;
+    }
+    case 105: {
+      if (!Number.isInteger(body.prodEId)) return { errNum: 10501 };
+      const detail =
+        fixture<ProductFixture>(`service-105-${body.prodEId}`) ??
+        fixture<ProductFixture>("service-105");
+      return detail
+        ? { ...detail, product: { ...detail.product, prodEId: body.prodEId } }
+        : missing;
+    }
+    case 107:
+      return (
+        fixture(`service-107-${body.productId}`) ??
+        fixture("service-107") ??
+        missing
+      );
+    default:
+      return fixture(`service-${serviceId}`) ?? missing;
+  }
+}
+
+/**
+ * HTTP server answering Sage Connect requests from fixtures. Call
+ * `listen()` on it; port 0 picks a free port.
+ */
+export function createMockSageServer(options: MockSageOptions = {}) {
+  return http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host}`);
+    const send = (payload: SagePayload) => {
+      res.writeHead(200, { "Content-Type": "application/json; charset=utf-8" });
+      res.end(JSON.stringify(payload));
+    };
+
+    if (req.method !== "POST") {
+      send({ errNum: 10005 });
+      return;
+    }
+
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      let body: SageRequestBody;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        send({ errNum: 10005 });
+        return;
+      }
+
+      const payload = respondToSageRequest(url, body, options);
+      if (options.log) {
+        console.log(
+          `📦 Service ${body.serviceId} → ${payload.errNum ? `errNum ${payload.errNum}` : "ok"}`,
+        );
+      }
+      send(payload);
+    });
+  });
+}
+
+// Only listen when run as a script, not when imported by tests
+if (process.argv[1] === __filename) {
+  const forcedErrors = parseForcedErrors(process.env.MOCK_SAGE_ERRORS);
+  const server = createMockSageServer({ forcedErrors, log: true });
+
+  server.listen(PORT, () => {
+    console.log(`🧪 Mock Sage Connect listening on http://localhost:${PORT}`);
+    console.log(`   Fixtures: ${FIXTURES_DIR}`);
+    if (forcedErrors.size > 0) {
+      console.log(
+        `   Forcing errors: ${Array.from(forcedErrors, ([service, errNum]) => `${service}→${errNum}`).join(", ")}`,
+      );
+    }
+  });
+
+  process.on("SIGINT", () => server.close(() => process.exit(0)));
+  process.on("SIGTERM", () => server.close(() => process.exit(0)));
+}
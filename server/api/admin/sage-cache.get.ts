@@ -0,0 +1,7 @@
+import { SageResponseCache } from "~/lib/integrations/sage-cache";
+
+export default defineEventHandler((event) => {
+  requireAdminToken(event);
+
+  return SageResponseCache.getMetrics();
+});
@@ -0,0 +1,19 @@
+import { SageQueryBudget } from "~/lib/integrations/sage-budget";
+import { SageResponseCache } from "~/lib/integrations/sage-cache";
+
+export default defineEventHandler(async (event) => {
+  requireAdminToken(event);
+
+  // Optional ?month=YYYY-MM to look at a previous month
+  const { month } = getQuery(event);
+  const budget = new SageQueryBudget();
+
+  return {
+    usage: await budget.getUsage(
+      typeof month === "string" && /^\d{4}-\d{2}$/.test(month)
+        ? month
+        : undefined,
+    ),
+    cache: SageResponseCache.getMetrics(),
+  };
+});
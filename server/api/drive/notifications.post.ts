@@ -0,0 +1,36 @@
+import { app } from "~/app";
+import { DriveWatchStore } from "~/lib/integrations/drive-watch";
+
+/**
+ * Google Drive push notifications for the changes.watch channel. The
+ * notification body is empty; headers say which channel fired and why.
+ * Changed files are fetched with changes.list by the sync task, so this
+ * only verifies the channel and queues a sync.
+ */
+export default defineEventHandler(async (event) => {
+  const store = new DriveWatchStore();
+  const channelId = getRequestHeader(event, "x-goog-channel-id");
+  const token = getRequestHeader(event, "x-goog-channel-token");
+  const state = getRequestHeader(event, "x-goog-resource-state");
+
+  if (!(await store.verify(channelId, token))) {
+    // Stale channels from before a renewal end up here too; a 4xx makes
+    // Drive stop retrying
+    throw createError({ statusCode: 403, statusMessage: "Unknown channel" });
+  }
+
+  // Drive sends "sync" once when the channel is created
+  if (state !== "sync") {
+    await store.markPending();
+    // Nitro runs a task at most once at a time; a sync already in progress
+    // sees the pending flag and makes another pass
+    event.waitUntil(
+      runTask("knowledge:sync-drive-changes").catch((error) => {
+        app.logger.error("Drive change sync failed:", error);
+      }),
+    );
+  }
+
+  setResponseStatus(event, 204);
+  return null;
+});
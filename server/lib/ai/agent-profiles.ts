@@ -0,0 +1,81 @@
+export const DEFAULT_MODEL = "openai/gpt-4o";
+export const DEFAULT_MAX_STEPS = 5;
+export const MAX_STEPS_LIMIT = 20;
+
+// Profile key for direct messages; every DM with the bot shares it
+export const DM_PROFILE_KEY = "dm";
+
+/**
+ * Whose memories the memory tools read and write: the Slack user's own, one
+ * set shared by everyone in the channel, or none (memory tools disabled).
+ */
+export const MEMORY_SCOPES = ["user", "channel", "none"] as const;
+export type MemoryScope = (typeof MEMORY_SCOPES)[number];
+
+/**
+ * How the agent behaves in one channel (or in DMs). Unset fields use the
+ * defaults: the configured prompt variant, DEFAULT_MODEL, every tool,
+ * DEFAULT_MAX_STEPS and per-user memory.
+ */
+export interface AgentProfile {
+  // Channel ID, or DM_PROFILE_KEY
+  key: string;
+  // Prompt variant for the persona, e.g. "brand-solutions@1"
+  promptVariant?: string;
+  // AI Gateway model ID, e.g. "openai/gpt-4o"
+  model?: string;
+  // Tool names the agent may use
+  tools?: string[];
+  maxSteps?: number;
+  memoryScope?: MemoryScope;
+  updatedBy?: string;
+  updatedAt: string;
+}
+
+const profileStorage = () => useStorage<AgentProfile>("agent:agent-profiles");
+
+export const getProfileKey = ({
+  channel,
+  isDirectMessage,
+}: {
+  channel: string;
+  isDirectMessage: boolean;
+}): string => (isDirectMessage ? DM_PROFILE_KEY : channel);
+
+export const getAgentProfile = async (
+  key: string,
+): Promise<AgentProfile | null> => {
+  return await profileStorage().getItem(key);
+};
+
+/**
+ * The profile for a conversation, or undefined to use the defaults.
+ */
+export const resolveAgentProfile = async ({
+  channel,
+  isDirectMessage = false,
+}: {
+  channel?: string;
+  isDirectMessage?: boolean;
+}): Promise<AgentProfile | undefined> => {
+  if (!channel) return undefined;
+  const profile = await getAgentProfile(
+    getProfileKey({ channel, isDirectMessage }),
+  );
+  return profile ?? undefined;
+};
+
+export const saveAgentProfile = async (
+  profile: AgentProfile,
+): Promise<void> => {
+  await profileStorage().setItem(profile.key, profile);
+};
+
+export const deleteAgentProfile = async (key: string): Promise<boolean> => {
+  const storage = profileStorage();
+  if (!(await storage.hasItem(key))) {
+    return false;
+  }
+  await storage.removeItem(key);
+  return true;
+};
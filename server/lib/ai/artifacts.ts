@@ -0,0 +1,87 @@
+import type { KnownBlock, WebClient } from "@slack/web-api";
+import { app } from "~/app";
+
+export interface BlocksArtifact {
+  type: "blocks";
+  // Fallback for notifications and clients that can't show blocks
+  text: string;
+  blocks: KnownBlock[];
+}
+
+export interface FileArtifact {
+  type: "file";
+  filename: string;
+  title?: string;
+  content: string | Buffer;
+}
+
+export type Artifact = BlocksArtifact | FileArtifact;
+
+/**
+ * Rich output produced by tools during one reply: Block Kit messages
+ * (product cards, comparison tables, quotes) and files. Tools add them
+ * through experimental_context instead of posting to Slack themselves, and
+ * the listener posts them after the model's text reply so the thread reads
+ * in order.
+ */
+export class TurnArtifacts {
+  private readonly artifacts: Artifact[] = [];
+
+  addBlocks(text: string, blocks: KnownBlock[]) {
+    this.artifacts.push({ type: "blocks", text, blocks });
+  }
+
+  addFile(file: Omit<FileArtifact, "type">) {
+    this.artifacts.push({ type: "file", ...file });
+  }
+
+  list(): Artifact[] {
+    return [...this.artifacts];
+  }
+}
+
+/**
+ * Post artifacts to a thread in the order tools added them. A failed post
+ * is logged and skipped so it can't take the text reply down with it.
+ */
+export const postArtifacts = async ({
+  client,
+  channel,
+  thread_ts,
+  artifacts,
+}: {
+  client: WebClient;
+  channel: string;
+  thread_ts: string;
+  artifacts: Artifact[];
+}) => {
+  for (const artifact of artifacts) {
+    try {
+      if (artifact.type === "blocks") {
+        await client.chat.postMessage({
+          channel,
+          thread_ts,
+          text: artifact.text,
+          blocks: artifact.blocks,
+        });
+      } else {
+        await client.files.uploadV2({
+          channel_id: channel,
+          thread_ts,
+          filename: artifact.filename,
+          title: artifact.title,
+          ...(typeof artifact.content === "string"
+            ? { content: artifact.content }
+            : { file: artifact.content }),
+        });
+      }
+    } catch (error) {
+      app.logger.error("Failed to post tool artifact", {
+        channel,
+        thread_ts,
+        type: artifact.type,
+        error,
+      });
+    }
+  }
+};
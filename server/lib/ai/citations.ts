@@ -0,0 +1,94 @@
+import type { ContextBlock, MrkdwnElement } from "@slack/web-api";
+
+// Slack allows at most 10 elements in a context block
+const MAX_SOURCES = 10;
+
+export interface KnowledgeSource {
+  chunkId: string;
+  fileId: string;
+  fileName: string;
+  webViewLink?: string;
+  headingPath?: string[];
+}
+
+export interface Citation extends KnowledgeSource {
+  number: number;
+}
+
+/**
+ * Numbers knowledge base chunks as they are returned to the model during one
+ * reply, so the model can cite them inline as [n] and the reply can list the
+ * documents it actually cited. The same chunk keeps its number across
+ * repeated searches.
+ */
+export class CitationRegistry {
+  private readonly citations = new Map<string, Citation>();
+
+  add(source: KnowledgeSource): number {
+    const existing = this.citations.get(source.chunkId);
+    if (existing) {
+      return existing.number;
+    }
+
+    const number = this.citations.size + 1;
+    this.citations.set(source.chunkId, { ...source, number });
+    return number;
+  }
+
+  /**
+   * Citations referenced as [n] (or [n, m]) in the reply, in number order.
+   */
+  citedIn(text: string): Citation[] {
+    const cited = new Set<number>();
+    for (const [, group] of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+      for (const number of group.split(",")) {
+        cited.add(Number(number.trim()));
+      }
+    }
+
+    return Array.from(this.citations.values())
+      .filter((citation) => cited.has(citation.number))
+      .sort((a, b) => a.number - b.number);
+  }
+}
+
+const escapeMrkdwn = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Context block listing cited documents with links, one element per source.
+ */
+export const buildSourcesBlock = (
+  citations: Citation[],
+): ContextBlock | undefined => {
+  if (citations.length === 0) {
+    return undefined;
+  }
+
+  const shown = citations.slice(0, MAX_SOURCES);
+  const elements = shown.map((citation, index): MrkdwnElement => {
+    const name = escapeMrkdwn(citation.fileName);
+    const title = citation.webViewLink
+      ? `<${citation.webViewLink}|${name}>`
+      : name;
+    const section = citation.headingPath?.length
+      ? ` › ${escapeMrkdwn(citation.headingPath.join(" › "))}`
+      : "";
+    const prefix = index === 0 ? "*Sources:* " : "";
+
+    return {
+      type: "mrkdwn",
+      text: `${prefix}[${citation.number}] ${title}${section}`,
+    };
+  });
+
+  if (citations.length > MAX_SOURCES) {
+    const last = elements[elements.length - 1];
+    last.text += ` _and ${citations.length - MAX_SOURCES} more_`;
+  }
+
+  return {
+    type: "context",
+    elements,
+  };
+};
@@ -0,0 +1,228 @@
+import { app } from "~/app";
+
+export const DEFAULT_PROMPT_VARIANT = "brand-solutions";
+
+// Placeholders prompt sections may use, as {{name}}
+const PROMPT_VARIABLES = ["date", "dateLong", "conversation"] as const;
+
+export type PromptVariables = Record<(typeof PROMPT_VARIABLES)[number], string>;
+
+/**
+ * A prompt version, stored as server/assets/prompts/<name>/v<version>.json.
+ * Sections are markdown files under server/assets/prompts, joined in order.
+ */
+export interface PromptManifest {
+  name: string;
+  version: number;
+  description?: string;
+  sections: string[];
+}
+
+export interface PromptTemplate {
+  name: string;
+  version: number;
+  template: string;
+}
+
+export class PromptValidationError extends Error {
+  constructor(
+    readonly variant: string,
+    message: string,
+  ) {
+    super(`Prompt "${variant}" is invalid: ${message}`);
+    this.name = "PromptValidationError";
+  }
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Prompt files are bundled with the server, so they only change on deploy
+const templateCache = new Map<string, Promise<PromptTemplate>>();
+
+const promptAssets = () => useStorage("assets:server");
+
+const parseVariant = (variant: string) => {
+  const [name, version] = variant.split("@");
+  return {
+    name: name.trim(),
+    version: version
+      ? Number.parseInt(version.trim().replace(/^v/, ""), 10)
+      : undefined,
+  };
+};
+
+const findLatestVersion = async (name: string): Promise<number | undefined> => {
+  const versions = (await promptAssets().getKeys(`prompts:${name}`))
+    .map((key) => key.match(/:v(\d+)\.json$/)?.[1])
+    .filter((version): version is string => Boolean(version))
+    .map(Number);
+
+  return versions.length > 0 ? Math.max(...versions) : undefined;
+};
+
+const readTemplate = async (variant: string): Promise<PromptTemplate> => {
+  const { name, version: pinned } = parseVariant(variant);
+  if (!name || Number.isNaN(pinned)) {
+    throw new PromptValidationError(
+      variant,
+      'expected "<name>" or "<name>@<version>"',
+    );
+  }
+
+  const version = pinned ?? (await findLatestVersion(name));
+  if (version === undefined) {
+    throw new PromptValidationError(variant, "no prompt files found");
+  }
+
+  const manifest = await promptAssets().getItem<PromptManifest>(
+    `prompts:${name}:v${version}.json`,
+  );
+  if (!manifest) {
+    throw new PromptValidationError(variant, `version ${version} not found`);
+  }
+  if (manifest.name !== name || manifest.version !== version) {
+    throw new PromptValidationError(
+      variant,
+      `v${version}.json declares ${manifest.name}@${manifest.version}`,
+    );
+  }
+  if (!Array.isArray(manifest.sections) || manifest.sections.length === 0) {
+    throw new PromptValidationError(variant, "no sections listed");
+  }
+
+  const sections: string[] = [];
+  for (const section of manifest.sections) {
+    const content = await promptAssets().getItem(`prompts:${section}`);
+    if (typeof content !== "string" || !content.trim()) {
+      throw new PromptValidationError(
+        variant,
+        `section ${section} is missing or empty`,
+      );
+    }
+
+    for (const [, placeholder] of content.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!(PROMPT_VARIABLES as readonly string[]).includes(placeholder)) {
+        throw new PromptValidationError(
+          variant,
+          `section ${section} uses unknown variable {{${placeholder}}} (known: ${PROMPT_VARIABLES.join(", ")})`,
+        );
+      }
+    }
+
+    sections.push(content.trim());
+  }
+
+  return { name, version, template: sections.join("\n\n") };
+};
+
+/**
+ * Load and validate a prompt variant: "<name>" for its latest version or
+ * "<name>@<version>" to pin one. Throws PromptValidationError when a file
+ * is missing, a section is empty or uses an unknown variable.
+ */
+export const loadPromptTemplate = (
+  variant: string,
+): Promise<PromptTemplate> => {
+  let template = templateCache.get(variant);
+  if (!template) {
+    template = readTemplate(variant);
+    templateCache.set(variant, template);
+    // Don't cache failures, so fixing the config doesn't need a restart
+    template.catch(() => templateCache.delete(variant));
+  }
+  return template;
+};
+
+export const renderPromptTemplate = (
+  template: string,
+  variables: PromptVariables,
+): string =>
+  template.replace(
+    PLACEHOLDER_PATTERN,
+    (_, name: keyof PromptVariables) => variables[name],
+  );
+
+const getPromptVariantMapping = (): Record<string, string> => {
+  const raw = process.env.PROMPT_VARIANTS;
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw) as Record<string, string>;
+  } catch (error) {
+    throw new Error(
+      `PROMPT_VARIANTS must be valid JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+};
+
+/**
+ * Prompt variant for a conversation. PROMPT_VARIANTS maps channel IDs and
+ * workspace (team) IDs to variants, e.g. {"C0123":"brand-solutions@1"};
+ * a channel mapping wins over its workspace's. Everything else uses
+ * PROMPT_VARIANT, or brand-solutions when that isn't set.
+ */
+export const getPromptVariant = ({
+  channel,
+  teamId,
+}: {
+  channel?: string;
+  teamId?: string;
+}): string => {
+  const mapping = getPromptVariantMapping();
+  return (
+    (channel && mapping[channel]) ||
+    (teamId && mapping[teamId]) ||
+    process.env.PROMPT_VARIANT ||
+    DEFAULT_PROMPT_VARIANT
+  );
+};
+
+/**
+ * The rendered system prompt for a conversation, with the name and version
+ * it came from. `variant` (e.g. from a channel's agent profile) takes
+ * precedence over PROMPT_VARIANTS. A broken channel or workspace variant
+ * falls back to the default so one bad mapping can't take the bot down
+ * everywhere.
+ */
+export const buildSystemPrompt = async ({
+  channel,
+  teamId,
+  isDirectMessage,
+  variant: override,
+  now = new Date(),
+}: {
+  channel?: string;
+  teamId?: string;
+  isDirectMessage: boolean;
+  variant?: string;
+  now?: Date;
+}): Promise<{ name: string; version: number; text: string }> => {
+  const variant = override || getPromptVariant({ channel, teamId });
+  const fallback = process.env.PROMPT_VARIANT || DEFAULT_PROMPT_VARIANT;
+
+  let prompt: PromptTemplate;
+  try {
+    prompt = await loadPromptTemplate(variant);
+  } catch (error) {
+    if (variant === fallback) throw error;
+    app.logger.error(`Falling back to prompt "${fallback}":`, error);
+    prompt = await loadPromptTemplate(fallback);
+  }
+
+  return {
+    name: prompt.name,
+    version: prompt.version,
+    text: renderPromptTemplate(prompt.template, {
+      date: now.toISOString().split("T")[0],
+      dateLong: now.toLocaleDateString("en-US", {
+        weekday: "long",
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      }),
+      conversation: isDirectMessage
+        ? "in a direct message with the user"
+        : "not in a direct message with the user",
+    }),
+  };
+};
@@ -1,4 +1,18 @@
-import { generateText, type ModelMessage, stepCountIs } from "ai";
+import { type ModelMessage, stepCountIs, streamText } from "ai";
+import { app } from "~/app";
+import {
+  renderMarkdownMessages,
+  type SlackMessage,
+} from "~/lib/slack/markdown-blocks";
+import {
+  type AgentProfile,
+  DEFAULT_MAX_STEPS,
+  DEFAULT_MODEL,
+  type MemoryScope,
+} from "./agent-profiles";
+import { type Artifact, TurnArtifacts } from "./artifacts";
+import { buildSourcesBlock, CitationRegistry } from "./citations";
+import { buildSystemPrompt } from "./prompts";
 import {
   getChannelMessagesTool,
   getThreadMessagesTool,
@@ -11,8 +25,16 @@ import {
   knowledgeStatsTool,
   searchProductsTool,
   getProductDetailTool,
+  compareProductsTool,
   checkInventoryTool,
+  watchInventoryTool,
+  listInventoryWatchesTool,
+  cancelInventoryWatchTool,
+  createQuoteTool,
+  reviseQuoteTool,
+  exportQuoteTool,
   getCategoriesAndThemesTool,
+  sageUsageTool,
   vectorizeImageTool,
   vectorizerAccountTool,
   searchMemoryTool,
@@ -23,6 +45,68 @@ import {
   addConversationToMemoryTool,
 } from "./tools";
 
+const agentTools = {
+  updateChatTitleTool,
+  getThreadMessagesTool,
+  getChannelMessagesTool,
+  updateAgentStatusTool,
+  webSearchTool,
+  companyResearchTool,
+  knowledgeSearchTool,
+  refreshKnowledgeTool,
+  knowledgeStatsTool,
+  searchProductsTool,
+  getProductDetailTool,
+  compareProductsTool,
+  checkInventoryTool,
+  watchInventoryTool,
+  listInventoryWatchesTool,
+  cancelInventoryWatchTool,
+  createQuoteTool,
+  reviseQuoteTool,
+  exportQuoteTool,
+  getCategoriesAndThemesTool,
+  sageUsageTool,
+  vectorizeImageTool,
+  vectorizerAccountTool,
+  searchMemoryTool,
+  saveMemoryTool,
+  getMemoryHistoryTool,
+  getAllMemoriesTool,
+  deleteMemoryTool,
+  addConversationToMemoryTool,
+};
+
+export type AgentToolName = keyof typeof agentTools;
+
+export const AGENT_TOOL_NAMES = Object.keys(agentTools) as AgentToolName[];
+
+const MEMORY_TOOL_NAMES: AgentToolName[] = [
+  "searchMemoryTool",
+  "saveMemoryTool",
+  "getMemoryHistoryTool",
+  "getAllMemoriesTool",
+  "deleteMemoryTool",
+  "addConversationToMemoryTool",
+];
+
+/**
+ * Tools the agent may use in a conversation: thread tools only make sense in
+ * channels and chat titles only in DMs, and a profile can narrow the list
+ * further or turn memory off.
+ */
+const getActiveTools = (
+  isDirectMessage: boolean,
+  profile?: AgentProfile,
+): AgentToolName[] =>
+  AGENT_TOOL_NAMES.filter(
+    (name) =>
+      name !==
+        (isDirectMessage ? "getThreadMessagesTool" : "updateChatTitleTool") &&
+      (!profile?.tools?.length || profile.tools.includes(name)) &&
+      !(profile?.memoryScope === "none" && MEMORY_TOOL_NAMES.includes(name)),
+  );
+
 interface RespondToMessageOptions {
   messages: ModelMessage[];
   isDirectMessage?: boolean;
@@ -30,6 +114,12 @@ interface RespondToMessageOptions {
   thread_ts?: string;
   botId?: string;
   userId?: string;
+  // Workspace the message came from, for per-workspace prompt variants
+  teamId?: string;
+  // Channel profile (persona, model, tools, step limit, memory scope)
+  profile?: AgentProfile;
+  // Called with the reply so far each time more text is generated
+  onText?: (text: string) => void;
 }
 
 export type ExperimentalContext = {
@@ -37,8 +127,23 @@ export type ExperimentalContext = {
   thread_ts?: string;
   botId?: string;
   userId?: string;
+  // Whose memories the memory tools use; "user" when unset
+  memoryScope?: MemoryScope;
+  // Knowledge base chunks shown to the model during this reply
+  citations?: CitationRegistry;
+  // Block Kit messages and files for the listener to post after the reply
+  artifacts?: TurnArtifacts;
 };
 
+export interface AgentResponse {
+  // The model's reply as markdown
+  text: string;
+  // The reply rendered for Slack, one or more messages to post in order
+  messages: SlackMessage[];
+  // Rich output from tools, to post after the messages
+  artifacts: Artifact[];
+}
+
 export const respondToMessage = async ({
   messages,
   isDirectMessage = false,
@@ -46,374 +151,34 @@ export const respondToMessage = async ({
   thread_ts,
   botId,
   userId,
-}: RespondToMessageOptions) => {
-  try {
-    const { text } = await generateText({
-      model: "openai/gpt-4o",
-      system: `
-			You are the Brand Solutions Assistant, a TREND INTELLIGENCE EXPERT who discovers what's hot in promotional products and connects them to client values and missions. You work for a social enterprise branded merchandise company, using trend data to help clients make impactful choices that resonate with their stakeholders.
-
-      Your core expertise:
-      - TREND DISCOVERY: You obsessively track what's trending NOW across retail, social media, and promotional products
-      - VALUES ALIGNMENT: You masterfully connect trending products to company missions and values
-      - INDUSTRY INTELLIGENCE: You know what's hot in healthcare, education, purpose-driven businesses, and beverage industries
-      - SOCIAL IMPACT AMPLIFICATION: You show how trending products + social enterprise = powerful stakeholder stories
-      - PREDICTIVE INSIGHTS: You use data and patterns to predict what's next
-      - RETAIL-TO-PROMO TRANSLATION: You spot retail trends before they hit the promotional market
-
-      Current date and time: ${new Date().toISOString().split('T')[0]} (${new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })})
-
-      ${isDirectMessage ? "You are in a direct message with the user." : "You are not in a direct message with the user."}
-
-      Core Capabilities & Rules
-
-      1. Decide if Context Is Needed
-      - For general knowledge or product searches → respond directly
-      - For references to earlier discussions, client details, or ongoing projects → fetch context
-      - When unsure → fetch context
-      - Always be proactive in suggesting sustainable alternatives and retail-inspired options
-
-      2. Status Updates
-      - Keep the team informed using updateAgentStatusTool: "is analyzing brand guidelines...", "is searching for trending products...", "is checking product inventory..."
-      - Use multiple tool calls efficiently
-      - Never expose technical details to users
-
-      3. Fetching Context
-      - Direct messages: access channel messages only
-      - Thread context: always read thread first → getThreadMessagesTool
-      - If thread insufficient → getChannelMessagesTool
-      - Combine context sources to provide comprehensive assistance
-
-      4. Conversation Management
-      - New conversation → updateChatTitleTool with relevant client/project name
-      - Topic change → update title accordingly
-      - Never notify user about title updates
-
-      5. Memory System Integration (TREND INTELLIGENCE MEMORY)
-      - Use memory tools to build trend intelligence over time:
-        * searchMemoryTool: Find past trend successes before recommending
-        * saveMemoryTool: Store which trends worked for which clients
-        * addConversationToMemoryTool: Save entire trend discovery sessions
-        * Track patterns: "Healthcare clients love wellness trends", "Colleges prefer aesthetic items"
-        * Build seasonal calendar: "Q1: New Year wellness", "Q2: Earth Day sustainability"
-        * Remember client reactions: "[Client] loved the mushroom lamp trend suggestion"
-      - Memory-driven predictions:
-        * "Based on past orders, this client gravitates toward minimalist trends"
-        * "This trend failed with similar clients - suggest alternative"
-        * "Client's values aligned with these past trending products"
-
-      6. Enhanced Web Search & Trend Intelligence (SUPERCHARGED CAPABILITY)
-      - Use webSearchTool as your PRIMARY RESEARCH TOOL with new powerful filters:
-        * TRENDING PRODUCT DISCOVERY - now with enhanced targeting:
-          - Multi-platform search: includeDomains: ['tiktok.com', 'instagram.com', 'reddit.com', 'pinterest.com']
-          - Date filtering: dateFilter: 'past_week' for latest trends, 'past_3_months' for established trends
-          - Neural search: searchType: 'neural' for semantic understanding of trend queries
-          - Exclude irrelevant sources: excludeDomains: ['spam-sites.com', 'low-quality-sources.com']
-        
-        * STRATEGIC TREND SEARCHES:
-          - "viral promotional products" with includeDomains: ['tiktok.com', 'instagram.com']
-          - "trending corporate gifts" with dateFilter: 'past_month'
-          - "[industry] branded merchandise trends" with dateFilter: 'past_3_months'
-          - "what's hot in promotional products" with searchType: 'neural'
-        
-        * COMPETITIVE INTELLIGENCE:
-          - "[competitor] branded merchandise" with dateFilter: 'past_year'
-          - "promotional product industry trends" with specific industry domains
-          - Cross-reference trends with sustainability using enhanced filtering
-        
-      - YOUR TREND RESEARCH PROCESS (Follow Every Time):
-        1. First search: "[Client industry] trending promotional products 2025"
-        2. Second search: "viral corporate gifts TikTok Instagram [current month]"
-        3. Third search: "[Client] brand mission values culture"
-        4. Fourth search: "[trending product] sustainable promotional alternatives"
-        5. Fifth search: "[Client competitor] branded merchandise swag"
-        
-      - INDUSTRY-SPECIFIC TREND SEARCHES:
-        * Healthcare: "healthcare worker appreciation gifts trending", "medical conference swag 2025", "wellness promotional products viral"
-        * Education: "college student trending items TikTok", "university swag hauls YouTube", "dorm essentials aesthetic 2025"
-        * Purpose-Driven Business: "[Company name] employee culture", "stakeholder engagement merchandise trends", "ESG promotional products"
-        * Beverage: "alcohol brand merchandise trends", "festival activation products 2025", "beverage influencer gifting trends"
-        
-      - Extract and synthesize:
-        * What's trending NOW in their industry
-        * What their competitors are using for swag
-        * What retail brands are inspiring corporate merchandise
-        * What Gen Z/Millennials are actually keeping (not throwing away)
+  teamId,
+  profile,
+  onText,
+}: RespondToMessageOptions): Promise<AgentResponse> => {
+  const citations = new CitationRegistry();
+  const artifacts = new TurnArtifacts();
 
-      7. Company Research Intelligence (NEW SUPERPOWER)
-      - Use companyResearchTool for deep client understanding BEFORE trend matching:
-        * Deep company website crawling for mission, values, culture insights
-        * Sustainability and social responsibility focus areas
-        * Recent news and initiatives (automatically includes past 3 months)
-        * Leadership and company culture analysis
-        * Brand personality and target audience insights
-      
-      - COMPANY RESEARCH WORKFLOW:
-        1. Always research company FIRST: companyResearchTool with focusAreas: ["mission", "values", "culture", "sustainability"]
-        2. Use findings to inform trend selection and brand alignment
-        3. Reference specific company values when presenting trending products
-        4. Connect trends to their actual stated mission and culture
-      
-      - EXAMPLES:
-        * companyResearchTool: { companyName: "Sephora", focusAreas: ["diversity", "culture", "sustainability"] }
-        * companyResearchTool: { companyName: "Patagonia", companyWebsite: "patagonia.com", focusAreas: ["sustainability", "mission"] }
-        * companyResearchTool: { companyName: "Nike", focusAreas: ["innovation", "culture", "recent_news"] }
-
-      8. Trend-to-Values Translation Engine (YOUR CORE DIFFERENTIATOR)
-      - EVERY CLIENT INTERACTION WORKFLOW:
-        1. TREND FIRST: Search what's trending NOW in their industry
-        2. VALUES SECOND: Understand client mission/values/culture
-        3. MATCH THIRD: Connect trends to values with specific reasoning
-        4. IMPACT FOURTH: Add social enterprise angle and story
-        5. URGENCY FIFTH: Create FOMO around trend timing
-        
-      - VALUES ALIGNMENT FRAMEWORK:
-        * Innovation-focused companies → "This trend represents next-gen thinking..."
-        * Wellness-focused → "This trending product supports employee wellbeing because..."
-        * Diversity & Inclusion → "This viral item creates inclusive spaces by..."
-        * Sustainability → "This trending eco-alternative shows commitment to planet..."
-        * Community → "This popular product builds connections through..."
-        
-      - INDUSTRY-SPECIFIC VALUES CONNECTIONS:
-        * Healthcare → Wellness, care, healing, mental health support
-        * Education → Learning, growth, achievement, school pride, future-building
-        * Purpose-Driven Business → Mission amplification, stakeholder engagement, cultural alignment
-        * Beverage → Experience enhancement, celebration, community building, responsible enjoyment
-
-      8. Knowledge Base Management
-      - Use knowledgeSearchTool for:
-        * Internal pricing guidelines and product catalogs
-        * Sustainability certifications and supplier information
-        * Client project history and preferences
-        * Team processes and standard operating procedures
-      - Proactively search knowledge base before external searches
-      - Update knowledge base when new supplier info or processes are shared
-
-      9. Promotional Product Expertise & Trend Matching (YOUR CORE DIFFERENTIATOR)
-      - YOUR PRODUCT DISCOVERY METHODOLOGY:
-        1. RESEARCH PHASE (Always do this first):
-           * Web search for current trends (monthly, weekly if possible)
-           * Identify 3-5 trending products in the market
-           * Note what's viral on social media
-           * Check what retail brands are doing
-        
-        2. MATCHING PHASE (Connect trends to inventory):
-           * Use searchProductsTool to find similar items in Sage
-           * Search variations: "[trending item] promotional", "[trend] alternative eco"
-           * Look for sustainable versions of trending products
-           * Find products from social enterprise suppliers
-        
-        3. CURATION PHASE (Expert recommendations):
-           * Create a "TRENDING NOW" section in every recommendation
-           * Match trending products to client's brand personality
-           * Provide context: "This is trending because..."
-           * Show the sustainable alternative to every viral product
-           * Include "retail-inspired" options that feel premium
-        
-      - TREND CATEGORIES TO ALWAYS CHECK:
-        * Tech accessories (what's the new PopSocket?)
-        * Drinkware (beyond Stanley cups - what's next?)
-        * Wellness items (mental health, self-care trends)
-        * Work-from-home essentials (evolving constantly)
-        * Sustainable swaps (bamboo, ocean plastic, mushroom leather)
-        * Experiential gifts (digital experiences, subscriptions)
-        * Nostalgia items (what Y2K trend is back?)
-        
-      - PRESENTATION FORMULA:
-        * "🔥 TRENDING: [Product] - Similar to the viral [retail example]"
-        * "🌱 ECO-ALTERNATIVE: [Sustainable version] with [impact metric]"
-        * "💡 INNOVATIVE: [Unique product] - First to market in promo industry"
-        * "📈 DATA: Seen 300% increase in searches this month"
-        
-      - Use checkInventoryTool for trending items immediately (they sell out fast)
-      - Set up alerts for when trending items come back in stock
-
-      10. Image Vectorization (Vectorizer.AI)
-      - Use vectorizeImageTool for:
-        * Converting client logos for product mockups
-        * Preparing artwork for various decoration methods
-        * Creating scalable graphics for different product sizes
-      - Always explain decoration method compatibility (screen print, embroidery, etc.)
-
-      11. Memory Management (Mem0)
-      - ALWAYS search existing memories before responding to provide personalized, context-aware responses
-      - Use searchMemoryTool to find relevant past conversations, user preferences, and stored information
-      - Automatically save important information using saveMemoryTool when users share preferences, important details, or context
-      - Keywords that indicate memory relevance: "remember", "my preference", "I like", "I don't like", "always", "never", "usually"
-      - Save conversations to memory using addConversationToMemoryTool for important discussions or decisions
-      - Use getAllMemoriesTool to understand complete user context when needed
-      - Memory-first approach: Search memories → Use context → Respond → Save new information
-      - Always personalize responses based on retrieved memories and learned user patterns
-
-      Response Framework
-
-      When receiving a client/prospect inquiry:
-      1. TREND RESEARCH FIRST (This is your differentiator):
-         - Search what's trending globally in promotional products
-         - Search what's trending in their specific industry
-         - Search what their competitors are using for swag
-         - Identify 3-5 hot products from retail that could work as promo
-      2. BRAND ANALYSIS:
-         - Analyze their website for colors, values, vibe
-         - Understand their audience (Gen Z? Millennials? C-suite?)
-         - Note their sustainability commitments
-      3. TREND-TO-BRAND MATCHING:
-         - Connect trending products to their brand identity
-         - Find sustainable versions of viral items
-         - Search Sage for these trending products
-      4. CURATED PRESENTATION:
-         - Lead with "TRENDING NOW" section
-         - Show how trends align with their brand
-         - Include data: "This product saw 200% growth..."
-         - Provide sustainable alternatives to every trend
-         - Explain WHY each product is trending
-      5. CREATE FOMO:
-         - "Limited availability on trending items"
-         - "Your competitors are already using..."
-         - "Be first in your industry to offer..."
-      6. FOLLOW-UP INTELLIGENCE:
-         - Set alerts for new trending items
-         - Track what they ultimately choose
-         - Note for future trend predictions
-
-      Decision Flow:
-      Message received
-        │
-        ├─ Client/Prospect Inquiry?
-        │      ├─ YES:
-        │      │     1. updateAgentStatusTool ("is researching [company] background...")
-        │      │     2. companyResearchTool (deep dive into company mission/values/culture)
-        │      │     3. updateAgentStatusTool ("is discovering trending products...")
-        │      │     4. webSearchTool (trending products with enhanced filtering)
-        │      │     5. webSearchTool (industry-specific trends with date/domain filters)
-        │      │     6. updateAgentStatusTool ("is matching trends to your brand values...")
-        │      │     7. searchProductsTool (find trending items in Sage)
-        │      │     8. searchProductsTool (find sustainable alternatives)
-        │      │     9. Present curated trending products with specific brand value connections
-        │      │     10. Reference company research findings in recommendations
-        │      │     11. Create follow-up task for samples/quotes
-        │      │
-        │      └─ NO: Continue to standard context check
-        │
-        ├─ Trend Research Request?
-        │      ├─ YES:
-        │      │     1. Run 5+ web searches for comprehensive trend analysis
-        │      │     2. Check social media trends
-        │      │     3. Research retail crossover opportunities  
-        │      │     4. Find all matching products in Sage
-        │      │     5. Create trend report with predictions
-        │      │
-        │      └─ NO: Continue to team task handling
-        │
-        ├─ Team Task Request?
-        │      ├─ YES:
-        │      │     1. Understand full scope and deadline
-        │      │     2. Break into actionable steps
-        │      │     3. Offer to draft communications
-        │      │     4. Set reminders and follow-ups
-        │      │
-        │      └─ NO: Continue to standard response
-        │
-        └─ Standard message handling...
+  try {
+    const systemPrompt = await buildSystemPrompt({
+      channel,
+      teamId,
+      isDirectMessage,
+      variant: profile?.promptVariant,
+    });
+    app.logger.debug(
+      `Using system prompt ${systemPrompt.name}@${systemPrompt.version}${profile ? ` and the ${profile.key} profile` : ""}`,
+    );
 
-      Tone & Communication Style:
-      - Lead with trends and innovation - you're a thought leader
-      - Warm, consultative, and solution-oriented
-      - Extremely knowledgeable about what's trending and why
-      - Connect every recommendation to larger cultural movements
-      - Creative and inspired by both retail and cultural trends
-      - Proactive in predicting what's next
-      - Professional yet exciting - create enthusiasm
-      - Always educating about trends and their origins
-      - Confidently position yourself as the trend expert
+    const activeTools = getActiveTools(isDirectMessage, profile);
 
-      Special Considerations:
-      - YOU ARE A TREND EXPERT FIRST: Your superpower is knowing what's trending NOW and matching it to brands
-      - When budget is mentioned, show how trending items provide social currency and viral potential
-      - Always have a "What's Hot" perspective ready - you live and breathe product trends
-      - Connect every product to a larger trend: "This aligns with the dopamine decor trend..." 
-      - Reference retail brands constantly: "Similar to what Glossier did with..." 
-      - Use trend data to justify recommendations: "300% increase in searches this month"
-      - Create urgency around trends: "This trend typically peaks for 3-4 months"
-      - When you don't know what's trending, IMMEDIATELY search for it (never guess)
-      - Build your reputation as the go-to for "what's next" in branded merchandise
-      - Remember: Clients hire you to know what they don't know - TRENDS
-      - Always pair trending items with sustainable alternatives
-      - Use social proof: "3 of your competitors are already using..."
-			`,
+    const result = streamText({
+      model: profile?.model || DEFAULT_MODEL,
+      system: systemPrompt.text,
       messages,
-      stopWhen: stepCountIs(5),
-      tools: {
-        updateChatTitleTool,
-        getThreadMessagesTool,
-        getChannelMessagesTool,
-        updateAgentStatusTool,
-        webSearchTool,
-        companyResearchTool,
-        knowledgeSearchTool,
-        refreshKnowledgeTool,
-        knowledgeStatsTool,
-        searchProductsTool,
-        getProductDetailTool,
-        checkInventoryTool,
-        getCategoriesAndThemesTool,
-        vectorizeImageTool,
-        vectorizerAccountTool,
-        searchMemoryTool,
-        saveMemoryTool,
-        getMemoryHistoryTool,
-        getAllMemoriesTool,
-        deleteMemoryTool,
-        addConversationToMemoryTool,
-      },
+      stopWhen: stepCountIs(profile?.maxSteps || DEFAULT_MAX_STEPS),
+      tools: agentTools,
       prepareStep: () => {
-        return {
-          activeTools: isDirectMessage
-            ? [
-                "updateChatTitleTool",
-                "getChannelMessagesTool",
-                "updateAgentStatusTool",
-                "webSearchTool",
-                "companyResearchTool",
-                "knowledgeSearchTool",
-                "refreshKnowledgeTool",
-                "knowledgeStatsTool",
-                "searchProductsTool",
-                "getProductDetailTool",
-                "checkInventoryTool",
-                "getCategoriesAndThemesTool",
-                "vectorizeImageTool",
-                "vectorizerAccountTool",
-                "searchMemoryTool",
-                "saveMemoryTool",
-                "getMemoryHistoryTool",
-                "getAllMemoriesTool",
-                "deleteMemoryTool",
-                "addConversationToMemoryTool",
-              ]
-            : [
-                "getThreadMessagesTool",
-                "getChannelMessagesTool",
-                "updateAgentStatusTool",
-                "webSearchTool",
-                "companyResearchTool",
-                "knowledgeSearchTool",
-                "refreshKnowledgeTool",
-                "knowledgeStatsTool",
-                "searchProductsTool",
-                "getProductDetailTool",
-                "checkInventoryTool",
-                "getCategoriesAndThemesTool",
-                "vectorizeImageTool",
-                "vectorizerAccountTool",
-                "searchMemoryTool",
-                "saveMemoryTool",
-                "getMemoryHistoryTool",
-                "getAllMemoriesTool",
-                "deleteMemoryTool",
-                "addConversationToMemoryTool",
-              ],
-        };
+        return { activeTools };
       },
       onStepFinish: ({ toolCalls }) => {
         if (toolCalls.length > 0) {
@@ -428,9 +193,36 @@ export const respondToMessage = async ({
         thread_ts,
         botId,
         userId,
+        memoryScope: profile?.memoryScope,
+        citations,
+        artifacts,
       } as ExperimentalContext,
     });
-    return text;
+
+    // Text from every step is kept, so nothing the user already saw
+    // streaming disappears from the final message
+    let text = "";
+    for await (const part of result.fullStream) {
+      if (part.type === "error") {
+        throw part.error;
+      }
+      if (part.type === "start-step" && text && !text.endsWith("\n")) {
+        text += "\n\n";
+      }
+      if (part.type === "text-delta") {
+        text += part.text;
+        onText?.(text);
+      }
+    }
+    text = text.trim();
+
+    const sourcesBlock = buildSourcesBlock(citations.citedIn(text));
+
+    return {
+      text,
+      messages: renderMarkdownMessages(text, sourcesBlock ? [sourcesBlock] : []),
+      artifacts: artifacts.list(),
+    };
   } catch (error) {
     console.error(error);
     throw error;
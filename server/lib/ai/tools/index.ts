@@ -6,5 +6,6 @@ export * from "./web-search";
 export * from "./company-research";
 export * from "./knowledge-search";
 export * from "./sage-connect";
+export * from "./quotes";
 export * from "./vectorize-image";
 export * from "./memory-tools";
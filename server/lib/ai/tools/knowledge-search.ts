@@ -1,15 +1,16 @@
 import { tool } from "ai";
 import { z } from "zod";
 import { app } from "~/app";
-import { updateAgentStatus } from "~/lib/slack/utils";
+import { isExternalChannel, updateAgentStatus } from "~/lib/slack/utils";
 import { DocumentProcessor } from "~/lib/integrations/document-processor";
+import { getChannelNamespaces } from "~/lib/integrations/knowledge-namespaces";
 import type { ExperimentalContext } from "../respond-to-message";
 
 const documentProcessor = new DocumentProcessor();
 
 export const knowledgeSearchTool = tool({
   name: "search_knowledge",
-  description: "Search through company/internal documents stored in Google Drive. Use this for questions about internal policies, procedures, documentation, or any company-specific information that might be stored in your knowledge base.",
+  description: "Search through company/internal documents stored in Google Drive, plus canvases and pinned messages from selected Slack channels. Use this for questions about internal policies, procedures, documentation, or any company-specific information that might be stored in your knowledge base.",
   inputSchema: z.object({
     query: z.string().min(1, "Search query cannot be empty").describe("The search query to find relevant information in the knowledge base"),
     maxResults: z
@@ -20,10 +21,19 @@ export const knowledgeSearchTool = tool({
       .optional()
       .default(5)
       .describe("Maximum number of documents to return (1-10, default: 5)"),
+    exactTerms: z
+      .array(z.string().min(1))
+      .max(10)
+      .optional()
+      .describe("Identifiers that must match verbatim, such as SKUs, item numbers, supplier names or policy numbers mentioned in the question. Documents containing them rank first"),
+    mode: z
+      .enum(["hybrid", "vector", "keyword"])
+      .optional()
+      .describe("Retrieval mode. Leave unset for hybrid keyword + semantic search; use keyword for exact lookups only"),
   }),
-  execute: async ({ query, maxResults }, { experimental_context }) => {
+  execute: async ({ query, maxResults, exactTerms, mode }, { experimental_context }) => {
     try {
-      const { channel, thread_ts } = experimental_context as ExperimentalContext;
+      const { channel, thread_ts, citations } = experimental_context as ExperimentalContext;
       
       // Update status to inform user what we're doing
       await updateAgentStatus({
@@ -32,9 +42,23 @@ export const knowledgeSearchTool = tool({
         status: `is searching company knowledge base for "${query}"...`,
       });
 
-      app.logger.debug("Knowledge search request:", { query, maxResults });
+      // Client-facing channels only see the namespaces mapped to them
+      const namespaces = getChannelNamespaces(channel, {
+        isExternal: channel ? await isExternalChannel(channel) : false,
+      });
 
-      const searchResult = await documentProcessor.searchKnowledge(query, maxResults, 0.7);
+      app.logger.debug("Knowledge search request:", { query, maxResults, exactTerms, mode, namespaces });
+
+      if (namespaces?.length === 0) {
+        return [
+          {
+            role: "user" as const,
+            content: "The company knowledge base isn't available in this channel because it is shared with people outside the workspace. Don't share internal documents here; answer from public information instead.",
+          },
+        ];
+      }
+
+      const searchResult = await documentProcessor.searchKnowledge(query, maxResults, 0.7, { exactTerms, mode, namespaces });
 
       if (searchResult.results.length === 0) {
         return [
@@ -50,17 +74,28 @@ Consider using web search if you need current/external information.`,
         ];
       }
 
-      // Format results for the model
+      // Format results for the model. Each chunk gets a source number for
+      // inline citations; the full chunk text is included so the model
+      // quotes the document rather than a truncated preview
       const formattedResults = searchResult.results.map((result, index) => {
-        const preview = result.content.length > 300 
-          ? result.content.substring(0, 300) + "..."
-          : result.content;
+        const sourceNumber = citations?.add({
+          chunkId: result.chunkId,
+          fileId: result.fileId,
+          fileName: result.fileName,
+          webViewLink: result.webViewLink,
+          headingPath: result.headingPath,
+        }) ?? index + 1;
         
         const relevanceScore = Math.round(result.score * 100);
+        const matchLabel = result.matchType === "both" ? "keyword + semantic match" : `${result.matchType} match`;
+        const exactLabel = result.exactMatches.length > 0 ? `, contains ${result.exactMatches.map((term) => `"${term}"`).join(", ")}` : "";
         const viewLink = result.webViewLink ? `\nView: ${result.webViewLink}` : '';
+        const location = result.folderPath ? `\nFolder: ${result.folderPath}` : '';
+        const section = result.headingPath?.length ? `\nSection: ${result.headingPath.join(' > ')}` : '';
         
-        return `**${index + 1}. ${result.fileName}** (${relevanceScore}% relevant)
-${preview}${viewLink}`;
+        return `**[${sourceNumber}] ${result.fileName}** (${relevanceScore}% relevant, ${matchLabel}${exactLabel})
+Chunk: ${result.chunkId}${section}${location}${viewLink}
+${result.content}`;
       }).join('\n\n');
 
       const knowledgeSummary = `${searchResult.summary}
@@ -68,7 +103,8 @@ ${preview}${viewLink}`;
 ${formattedResults}
 
 ---
-*Knowledge base search completed. Found ${searchResult.results.length} relevant document${searchResult.results.length > 1 ? 's' : ''}.*`;
+*Knowledge base search completed. Found ${searchResult.results.length} relevant document${searchResult.results.length > 1 ? 's' : ''}.*
+Cite every fact you use from these documents inline with its source number, e.g. "Net 30 terms apply [2]". Only cite sources you actually used; a Sources list with links is added to your reply automatically, so don't list links yourself.`;
 
       return [
         {
@@ -94,11 +130,16 @@ ${formattedResults}
 
 export const refreshKnowledgeTool = tool({
   name: "refresh_knowledge",
-  description: "Refresh the knowledge base by re-indexing all documents from Google Drive. Use this when documents have been updated and you need to ensure the latest versions are searchable. This is an admin function that may take several minutes.",
+  description: "Refresh the knowledge base from Google Drive and the configured Slack channels. Only new or changed documents are re-indexed and deleted documents are removed. Use this when documents have been updated and you need to ensure the latest versions are searchable. This is an admin function that may take several minutes.",
   inputSchema: z.object({
-    confirm: z.boolean().describe("Must be true to confirm you want to refresh the entire knowledge base"),
+    confirm: z.boolean().describe("Must be true to confirm you want to refresh the knowledge base"),
+    fullReindex: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Wipe the index and re-embed every document. Only use this when explicitly asked for a full rebuild"),
   }),
-  execute: async ({ confirm }, { experimental_context }) => {
+  execute: async ({ confirm, fullReindex }, { experimental_context }) => {
     if (!confirm) {
       return [
         {
@@ -117,17 +158,20 @@ export const refreshKnowledgeTool = tool({
         status: "is refreshing the knowledge base (this may take a few minutes)...",
       });
 
-      app.logger.info("Starting knowledge base refresh");
+      app.logger.info("Starting knowledge base refresh", { fullReindex });
 
-      const result = await documentProcessor.refreshKnowledge();
+      const result = await documentProcessor.refreshKnowledge(undefined, { fullReindex });
       
-      const successMessage = `**Knowledge Base Refresh Complete**
+      const successMessage = `**Knowledge Base Refresh Complete**${fullReindex ? " (full reindex)" : ""}
 
 📊 **Summary:**
 - Total files found: ${result.totalFiles}
-- Successfully processed: ${result.processedFiles}
+- Added: ${result.added}
+- Updated: ${result.updated}
+- Unchanged: ${result.unchanged}
+- Removed: ${result.removed}
 - Failed: ${result.failedFiles}
-- Total chunks indexed: ${result.totalChunks}
+- Chunks indexed: ${result.totalChunks}
 
 ${result.errors.length > 0 ? `\n❌ **Errors:**\n${result.errors.map(e => `- ${e.fileName}: ${e.error}`).join('\n')}` : ''}
 
@@ -148,7 +192,7 @@ ${result.errors.length > 0 ? `\n❌ **Errors:**\n${result.errors.map(e => `- ${e
       return [
         {
           role: "user" as const,
-          content: `Knowledge base refresh failed: ${errorMessage}. Please check the Google Drive configuration and Pinecone setup.`,
+          content: `Knowledge base refresh failed: ${errorMessage}. Please check the Google Drive and Slack channel configuration and the vector store setup.`,
         },
       ];
     }
@@ -170,9 +214,15 @@ export const knowledgeStatsTool = tool({
       });
 
       const stats = await documentProcessor.getIndexStats();
+      const { documents, failures, exclusions } = await documentProcessor.getRegistry();
       
       const statsMessage = `**Knowledge Base Statistics**
 
+📄 **Documents:**
+- Indexed: ${documents.length.toLocaleString()}
+- Failed to index: ${failures.length.toLocaleString()}
+- Excluded by an admin: ${exclusions.length.toLocaleString()}
+
 📈 **Index Stats:**
 - Total vectors: ${stats.vectorCount.toLocaleString()}
 - Vector dimension: ${stats.dimension}
@@ -3,6 +3,13 @@ import { z } from "zod";
 import { mem0, type Message, type MemoryOptions } from "../../integrations/mem0";
 import type { ExperimentalContext } from "../respond-to-message";
 
+// Memories belong to the Slack user, unless the channel's agent profile
+// shares one set of memories across the channel
+const getMemoryUserId = (context: ExperimentalContext | undefined, requested?: string) =>
+  context?.memoryScope === 'channel' && context.channel
+    ? `slack_channel_${context.channel}`
+    : requested || `slack_${context?.userId || 'unknown'}`;
+
 export const searchMemoryTool = tool({
   name: "search_memory",
   description: "Search through past conversations and stored memories to find relevant context and information",
@@ -22,7 +29,7 @@ export const searchMemoryTool = tool({
       }
 
       const context = experimental_context as ExperimentalContext;
-      const effectiveUserId = user_id || `slack_${context?.userId || 'unknown'}`;
+      const effectiveUserId = getMemoryUserId(context, user_id);
       
       console.log('🔍 Executing memory search:', {
         query: query.substring(0, 50) + '...',
@@ -86,7 +93,7 @@ export const saveMemoryTool = tool({
       }
 
       const context = experimental_context as ExperimentalContext;
-      const effectiveUserId = user_id || `slack_${context?.userId || 'unknown'}`;
+      const effectiveUserId = getMemoryUserId(context, user_id);
 
       console.log('💾 Saving memory:', {
         content: content.substring(0, 100) + '...',
@@ -201,7 +208,7 @@ export const getAllMemoriesTool = tool({
       }
 
       const context = experimental_context as ExperimentalContext;
-      const effectiveUserId = user_id || `slack_${context?.userId || 'unknown'}`;
+      const effectiveUserId = getMemoryUserId(context, user_id);
 
       console.log('📚 Getting all memories:', {
         userId: effectiveUserId,
@@ -308,7 +315,7 @@ export const addConversationToMemoryTool = tool({
       }
 
       const context = experimental_context as ExperimentalContext;
-      const effectiveUserId = user_id || `slack_${context?.userId || 'unknown'}`;
+      const effectiveUserId = getMemoryUserId(context, user_id);
 
       console.log('💬 Adding conversation to memory:', {
         messageCount: messages.length,
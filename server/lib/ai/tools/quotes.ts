@@ -0,0 +1,412 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { app } from "~/app";
+import {
+  buildQuoteBlocks,
+  buildQuoteLine,
+  calculateQuoteTotals,
+  createQuoteId,
+  formatQuoteSummary,
+  getMarkupRules,
+  getQuote,
+  type Quote,
+  type QuoteLineInput,
+  quoteToCsv,
+  quoteToJson,
+  saveQuote,
+} from "~/lib/sage/quotes";
+import { updateAgentStatus } from "~/lib/slack/utils";
+import type { TurnArtifacts } from "../artifacts";
+import type { ExperimentalContext } from "../respond-to-message";
+import { getSageClient } from "./sage-connect";
+
+const quoteItemSchema = z.object({
+  productId: z
+    .string()
+    .regex(/^\d+$/, "Use the numeric Product ID (prodEId)")
+    .describe("The numeric product ID (prodEId) from search results"),
+  quantity: z.number().int().positive().describe("Number of units to quote"),
+  decorationMethod: z
+    .string()
+    .optional()
+    .describe("Decoration method (e.g., 'screen print', 'laser engraving')"),
+  decorationCostPerUnit: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("Additional decoration/run charge per unit at cost"),
+  setupCharge: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("One-time setup charge for this line"),
+});
+
+const exportFormatSchema = z
+  .enum(["csv", "json", "none"])
+  .optional()
+  .default("csv")
+  .describe("Attach the quote as a CSV or JSON file in the thread");
+
+/**
+ * Price each line against the current Sage product detail.
+ */
+const priceQuoteLines = async (
+  items: QuoteLineInput[],
+  markupPercentOverride?: number,
+) => {
+  const client = getSageClient();
+  const rules = getMarkupRules();
+
+  return await Promise.all(
+    items.map(async (item) => {
+      const product = await client.getProductDetail(item.productId);
+      return buildQuoteLine(product, item, rules, markupPercentOverride);
+    }),
+  );
+};
+
+/**
+ * Quotes include our costs and markup, so they can only be revised or
+ * re-posted from the conversation they were created in, or by the person
+ * who created them.
+ */
+const canAccessQuote = (
+  quote: Quote,
+  { channel, userId }: ExperimentalContext,
+) =>
+  (channel !== undefined && quote.channel === channel) ||
+  (userId !== undefined && quote.createdBy === userId);
+
+/**
+ * Show the quote (and its export) in the thread. During a reply it is
+ * attached as an artifact so it appears after the model's text; otherwise
+ * it is posted straight to the quote's thread.
+ */
+const postQuoteToThread = async (
+  quote: Quote,
+  exportFormat: "csv" | "json" | "none",
+  artifacts?: TurnArtifacts,
+) => {
+  const file =
+    exportFormat === "none"
+      ? undefined
+      : {
+          filename: `${quote.id}-rev${quote.revision}.${exportFormat}`,
+          title: `${quote.id} (revision ${quote.revision})`,
+          content:
+            exportFormat === "csv" ? quoteToCsv(quote) : quoteToJson(quote),
+        };
+
+  if (artifacts) {
+    artifacts.addBlocks(formatQuoteSummary(quote), buildQuoteBlocks(quote));
+    if (file) artifacts.addFile(file);
+    return;
+  }
+
+  if (!quote.channel) {
+    return;
+  }
+
+  await app.client.chat.postMessage({
+    channel: quote.channel,
+    thread_ts: quote.thread_ts,
+    blocks: buildQuoteBlocks(quote),
+    text: formatQuoteSummary(quote),
+  });
+
+  if (file) {
+    await app.client.files.uploadV2({
+      channel_id: quote.channel,
+      thread_ts: quote.thread_ts,
+      ...file,
+    });
+  }
+};
+
+export const createQuoteTool = tool({
+  name: "create_quote",
+  description:
+    "Build a client-ready quote for one or more promotional products. Uses the supplier's quantity price breaks, applies our markup rules, adds decoration and setup charges, posts the quote in the thread and saves it with an ID so it can be revised later.",
+  inputSchema: z.object({
+    clientName: z.string().optional().describe("Client the quote is for"),
+    items: z
+      .array(quoteItemSchema)
+      .min(1)
+      .max(20)
+      .describe("Products and quantities to include in the quote"),
+    markupPercent: z
+      .number()
+      .min(0)
+      .max(500)
+      .optional()
+      .describe(
+        "Override the standard markup rules with a flat markup percentage. Only use when the user explicitly asks for a specific markup.",
+      ),
+    notes: z
+      .string()
+      .optional()
+      .describe("Terms or notes to show at the bottom of the quote"),
+    exportFormat: exportFormatSchema,
+  }),
+  execute: async (
+    { clientName, items, markupPercent, notes, exportFormat },
+    { experimental_context },
+  ) => {
+    try {
+      const { channel, thread_ts, userId, artifacts } =
+        experimental_context as ExperimentalContext;
+
+      await updateAgentStatus({
+        channel,
+        thread_ts,
+        status: `is building a quote for ${items.length} product${items.length > 1 ? "s" : ""}...`,
+      });
+
+      const lines = await priceQuoteLines(items, markupPercent);
+      const now = new Date().toISOString();
+      const quote: Quote = {
+        id: createQuoteId(),
+        revision: 1,
+        clientName,
+        notes,
+        markupPercentOverride: markupPercent,
+        channel,
+        thread_ts,
+        createdBy: userId,
+        createdAt: now,
+        updatedAt: now,
+        lines,
+        ...calculateQuoteTotals(lines),
+      };
+
+      await saveQuote(quote);
+      await postQuoteToThread(quote, exportFormat, artifacts);
+
+      return [
+        {
+          role: "user" as const,
+          content: `${formatQuoteSummary(quote)}
+
+The quote will be posted in the thread after your reply${exportFormat !== "none" ? ` with a ${exportFormat.toUpperCase()} export` : ""}. Do not repeat the full line items; briefly confirm and mention the quote ID (${quote.id}) so it can be revised.`,
+        },
+      ];
+    } catch (error) {
+      app.logger.error("Quote creation failed:", error);
+
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+
+      return [
+        {
+          role: "user" as const,
+          content: `Failed to build quote: ${errorMessage}. Please check the product IDs and try again.`,
+        },
+      ];
+    }
+  },
+});
+
+export const reviseQuoteTool = tool({
+  name: "revise_quote",
+  description:
+    "Revise a previously created quote by its ID. Change quantities, decoration or setup charges, add products, or remove products. Lines are re-priced against current supplier pricing and a new revision is posted in the thread.",
+  inputSchema: z.object({
+    quoteId: z.string().min(1).describe("The quote ID (e.g., 'Q-1A2B3C4D')"),
+    updates: z
+      .array(quoteItemSchema.partial().required({ productId: true }))
+      .optional()
+      .describe(
+        "Lines to change or add. Existing products are matched by productId; new products need a quantity.",
+      ),
+    removeProductIds: z
+      .array(z.string())
+      .optional()
+      .describe("Product IDs to remove from the quote"),
+    clientName: z.string().optional().describe("Updated client name"),
+    markupPercent: z
+      .number()
+      .min(0)
+      .max(500)
+      .optional()
+      .describe("Updated flat markup percentage override"),
+    notes: z.string().optional().describe("Updated quote notes"),
+    exportFormat: exportFormatSchema,
+  }),
+  execute: async (
+    {
+      quoteId,
+      updates,
+      removeProductIds,
+      clientName,
+      markupPercent,
+      notes,
+      exportFormat,
+    },
+    { experimental_context },
+  ) => {
+    try {
+      const context = experimental_context as ExperimentalContext;
+      const { channel, thread_ts, artifacts } = context;
+
+      const existing = await getQuote(quoteId);
+      if (!existing || !canAccessQuote(existing, context)) {
+        return [
+          {
+            role: "user" as const,
+            content: `Quote "${quoteId}" was not found. Check the quote ID and try again.`,
+          },
+        ];
+      }
+
+      await updateAgentStatus({
+        channel,
+        thread_ts,
+        status: `is revising quote ${existing.id}...`,
+      });
+
+      const removed = new Set(removeProductIds ?? []);
+      const items = new Map<string, QuoteLineInput>(
+        existing.lines
+          .filter((line) => !removed.has(line.productId))
+          .map((line) => [
+            line.productId,
+            {
+              productId: line.productId,
+              quantity: line.quantity,
+              decorationMethod: line.decorationMethod,
+              decorationCostPerUnit: line.decorationCostPerUnit,
+              setupCharge: line.setupCharge,
+            },
+          ]),
+      );
+
+      for (const update of updates ?? []) {
+        const current = items.get(update.productId);
+        const quantity = update.quantity ?? current?.quantity;
+        if (!quantity) {
+          return [
+            {
+              role: "user" as const,
+              content: `A quantity is required to add product ${update.productId} to quote ${existing.id}.`,
+            },
+          ];
+        }
+        items.set(update.productId, {
+          ...current,
+          ...update,
+          quantity,
+        });
+      }
+
+      if (items.size === 0) {
+        return [
+          {
+            role: "user" as const,
+            content: `Quote ${existing.id} would have no products left. Keep at least one product in the quote.`,
+          },
+        ];
+      }
+
+      const markupPercentOverride =
+        markupPercent ?? existing.markupPercentOverride;
+      const lines = await priceQuoteLines(
+        Array.from(items.values()),
+        markupPercentOverride,
+      );
+      const quote: Quote = {
+        ...existing,
+        revision: existing.revision + 1,
+        clientName: clientName ?? existing.clientName,
+        notes: notes ?? existing.notes,
+        markupPercentOverride,
+        channel: channel ?? existing.channel,
+        thread_ts: thread_ts ?? existing.thread_ts,
+        updatedAt: new Date().toISOString(),
+        lines,
+        ...calculateQuoteTotals(lines),
+      };
+
+      await saveQuote(quote);
+      await postQuoteToThread(quote, exportFormat, artifacts);
+
+      return [
+        {
+          role: "user" as const,
+          content: `${formatQuoteSummary(quote)}
+
+Revision ${quote.revision} will be posted in the thread after your reply. Briefly summarize what changed compared to revision ${existing.revision} (previous total: $${existing.total.toFixed(2)}).`,
+        },
+      ];
+    } catch (error) {
+      app.logger.error("Quote revision failed:", error);
+
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+
+      return [
+        {
+          role: "user" as const,
+          content: `Failed to revise quote: ${errorMessage}. Please try again.`,
+        },
+      ];
+    }
+  },
+});
+
+export const exportQuoteTool = tool({
+  name: "export_quote",
+  description:
+    "Look up a saved quote by its ID and re-post it in the thread, optionally attaching a CSV or JSON export.",
+  inputSchema: z.object({
+    quoteId: z.string().min(1).describe("The quote ID (e.g., 'Q-1A2B3C4D')"),
+    exportFormat: exportFormatSchema,
+  }),
+  execute: async ({ quoteId, exportFormat }, { experimental_context }) => {
+    try {
+      const context = experimental_context as ExperimentalContext;
+      const { channel, thread_ts, artifacts } = context;
+
+      const quote = await getQuote(quoteId);
+      if (!quote || !canAccessQuote(quote, context)) {
+        return [
+          {
+            role: "user" as const,
+            content: `Quote "${quoteId}" was not found. Check the quote ID and try again.`,
+          },
+        ];
+      }
+
+      await postQuoteToThread(
+        {
+          ...quote,
+          channel: channel ?? quote.channel,
+          thread_ts: thread_ts ?? quote.thread_ts,
+        },
+        exportFormat,
+        artifacts,
+      );
+
+      return [
+        {
+          role: "user" as const,
+          content: `${formatQuoteSummary(quote)}
+
+The quote will be posted in the thread after your reply.`,
+        },
+      ];
+    } catch (error) {
+      app.logger.error("Quote export failed:", error);
+
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+
+      return [
+        {
+          role: "user" as const,
+          content: `Failed to export quote: ${errorMessage}.`,
+        },
+      ];
+    }
+  },
+});
@@ -2,16 +2,43 @@ import { tool } from "ai";
 import { z } from "zod";
 import { app } from "~/app";
 import { updateAgentStatus } from "~/lib/slack/utils";
-import { SageConnectClient, type ProductSearchRequest } from "~/lib/integrations/sage-connect";
+import { SageBudgetExceededError } from "~/lib/integrations/sage-budget";
+import { SageResponseCache } from "~/lib/integrations/sage-cache";
+import { SageConnectClient, type ProductDetail, type ProductSearchRequest } from "~/lib/integrations/sage-connect";
+import { notifySageBudgetThreshold } from "~/lib/sage/budget-alerts";
+import {
+  createInventoryWatch,
+  DEFAULT_WATCH_DAYS,
+  deleteInventoryWatch,
+  getInventoryWatch,
+  getWatchedAvailability,
+  listInventoryWatches,
+  MAX_WATCH_DAYS,
+  updateInventoryWatch,
+} from "~/lib/sage/inventory-watches";
+import {
+  buildComparisonBlocks,
+  DEFAULT_COMPARISON_QUANTITIES,
+  formatComparisonText,
+  toComparisonColumn,
+} from "~/lib/sage/product-comparison";
+import {
+  buildProductSearchBlocks,
+  formatPriceRange,
+  SEARCH_PAGE_SIZE,
+  saveProductSearch,
+} from "~/lib/sage/product-search";
 import type { ExperimentalContext } from "../respond-to-message";
 
 // Create a singleton client instance
 let sageClient: SageConnectClient | null = null;
 
-function getSageClient(): SageConnectClient {
+export function getSageClient(): SageConnectClient {
   if (!sageClient) {
     try {
-      sageClient = SageConnectClient.fromEnvironment();
+      sageClient = SageConnectClient.fromEnvironment({
+        onBudgetThreshold: notifySageBudgetThreshold,
+      });
     } catch (error) {
       app.logger.error('Failed to initialize Sage Connect client:', error);
       throw new Error('Sage Connect is not configured. Please check environment variables.');
@@ -34,10 +61,11 @@ export const searchProductsTool = tool({
     verified: z.boolean().optional().describe("Only show verified products"),
     envFriendly: z.boolean().optional().describe("Only show environmentally friendly products"),
     maxResults: z.number().int().min(1).max(50).optional().default(10).describe("Maximum number of results to return"),
+    speculative: z.boolean().optional().default(false).describe("Set to true for exploratory variation searches during multi-search trend research. Speculative searches are skipped when the monthly Sage query budget is nearly used up."),
   }),
   execute: async (args, { experimental_context }) => {
     try {
-      const { channel, thread_ts } = experimental_context as ExperimentalContext;
+      const { channel, thread_ts, artifacts } = experimental_context as ExperimentalContext;
       
       const client = getSageClient();
       
@@ -80,7 +108,9 @@ export const searchProductsTool = tool({
 
       app.logger.debug("Sage Connect product search:", searchRequest);
 
-      const results = await client.searchProducts(searchRequest);
+      const results = await client.searchProducts(searchRequest, {
+        priority: args.speculative ? 'low' : 'normal',
+      });
 
       if (results.products.length === 0) {
         return [
@@ -91,84 +121,33 @@ export const searchProductsTool = tool({
         ];
       }
 
-      // Build Block Kit message for search results
-      const blocks = [];
-      
-      // Header
-      const priceRange = args.priceLow || args.priceHigh 
-        ? ` in $${args.priceLow || 0}-${args.priceHigh || '∞'} range`
-        : '';
-        
-      blocks.push({
-        type: "section",
-        text: {
-          type: "mrkdwn",
-          text: `*Found ${results.totalFound} promotional products* ${searchTerms ? `for "${searchTerms}"` : ''}${priceRange}\n\nShowing top ${results.products.length} results:`
-        }
-      });
-
-      // Product results with images
-      results.products.slice(0, 10).forEach((product, index) => {
-        // Handle price
-        let priceDisplay = 'Price on request';
-        if (product.prc) {
-          if (typeof product.prc === 'string') {
-            priceDisplay = `$${product.prc}`;
-          } else if (typeof product.prc === 'number') {
-            priceDisplay = `$${product.prc.toFixed(2)}`;
-          }
-        }
-        
-        const supplierInfo = product.supplier ? ` by ${product.supplier.coName}` : '';
-        const features = [];
-        if (product.verified) features.push('✓ Verified');
-        if (product.envFriendly) features.push('🌱 Eco-Friendly');
-        const featuresDisplay = features.length > 0 ? ` (${features.join(', ')})` : '';
-
-        const productText = `*${index + 1}. ${product.prName}*\n*ID:* ${product.productId} | *SPC:* ${product.spc}\n*Price:* ${priceDisplay}${supplierInfo}${featuresDisplay}`;
-
-        // Add product block with thumbnail if available
-        if (product.thumbPic) {
-          blocks.push({
-            type: "section",
-            text: {
-              type: "mrkdwn",
-              text: productText
-            },
-            accessory: {
-              type: "image",
-              image_url: product.thumbPic,
-              alt_text: product.prName || 'Product'
-            }
-          });
-        } else {
-          blocks.push({
-            type: "section",
-            text: {
-              type: "mrkdwn", 
-              text: productText
-            }
-          });
-        }
-      });
-
-      // Footer
-      blocks.push(
-        {
-          type: "divider"
-        },
-        {
-          type: "context",
-          elements: [
-            {
-              type: "mrkdwn",
-              text: "_To get more details about a product, use the product ID number (e.g., \"get details for product 503406121\")_"
-            }
-          ]
-        }
+      const priceRange = formatPriceRange(args.priceLow, args.priceHigh);
+
+      // Save the search criteria so the "Show next" button on the product
+      // cards can page through the remaining results without re-prompting
+      const shownCount = Math.min(results.products.length, SEARCH_PAGE_SIZE);
+      const storedSearch = channel && results.totalFound > shownCount
+        ? await saveProductSearch({
+            request: searchRequest,
+            searchTerms,
+            priceRange,
+            channel,
+            thread_ts,
+          })
+        : undefined;
+
+      // Product cards with thumbnails are posted after the reply
+      artifacts?.addBlocks(
+        `Found ${results.totalFound} promotional products${searchTerms ? ` for "${searchTerms}"` : ''}`,
+        buildProductSearchBlocks(results, {
+          searchTerms,
+          priceRange,
+          offset: 0,
+          searchId: storedSearch?.id,
+        }),
       );
 
-      // Format results with images as text for now (Block Kit may not be supported)
+      // The model still gets the results as text to reason about
       const formattedResults = results.products.slice(0, 10).map((product, index) => {
         // Handle price
         let priceDisplay = 'Price on request';
@@ -186,26 +165,19 @@ export const searchProductsTool = tool({
         if (product.envFriendly) features.push('🌱 Eco-Friendly');
         const featuresDisplay = features.length > 0 ? ` (${features.join(', ')})` : '';
 
-        // Include image URL if available
-        const imageInfo = product.thumbPic ? `\n🖼️ Image: ${product.thumbPic}` : '';
-
         return `**${index + 1}. ${product.prName}**
 - **ID:** ${product.productId} | **SPC:** ${product.spc}
-- **Price:** ${priceDisplay}${supplierInfo}${featuresDisplay}${imageInfo}`;
+- **Price:** ${priceDisplay}${supplierInfo}${featuresDisplay}`;
       }).join('\n\n');
 
-      const priceFilter = args.priceLow || args.priceHigh 
-        ? ` in $${args.priceLow || 0}-${args.priceHigh || '∞'} range`
-        : '';
-        
-      const searchSummary = `**Found ${results.totalFound} promotional products** ${searchTerms ? `for "${searchTerms}"` : ''}${priceFilter}
+      const searchSummary = `**Found ${results.totalFound} promotional products** ${searchTerms ? `for "${searchTerms}"` : ''}${priceRange}
 
 Showing top ${results.products.slice(0, 10).length} results:
 
 ${formattedResults}
 
 ---
-*To get more details about a product, use the product ID number (e.g., "get details for product 503406121")*`;
+${artifacts ? '*These results are shown to the user as product cards with images after your reply. Highlight the best matches and why they fit rather than repeating the whole list.*' : '*To get more details about a product, use the product ID number (e.g., "get details for product 503406121")*'}`;
 
       return [
         {
@@ -215,6 +187,16 @@ ${formattedResults}
       ];
 
     } catch (error) {
+      if (error instanceof SageBudgetExceededError) {
+        app.logger.warn("Skipped speculative Sage search:", error.message);
+        return [
+          {
+            role: "user" as const,
+            content: `Skipped this exploratory search: the monthly Sage query budget is nearly used up (${error.usage.total} of ${error.usage.monthlyLimit} queries). Only run essential product searches for the rest of the month.`,
+          },
+        ];
+      }
+
       app.logger.error("Sage Connect product search failed:", error);
       
       const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
@@ -269,9 +251,6 @@ export const getProductDetailTool = tool({
       app.logger.debug("Sage Connect product detail lookup:", { productId });
 
       const product = await client.getProductDetail(productId);
-      
-      // Debug log to see what we got
-      app.logger.info("Product detail received:", JSON.stringify(product, null, 2));
 
       if (!product || !product.prName) {
         return [
@@ -327,14 +306,10 @@ export const getProductDetailTool = tool({
         product.comment ? `**Comments:** ${product.comment}` : '',
       ].filter(Boolean).join('\n');
 
-      // Handle base pricing - Service 105 returns qty and prc as separate arrays
+      // Handle base pricing - quantity breaks normalized from Service 105's qty/prc arrays
       let pricing = '';
-      if (product.qty && product.prc && Array.isArray(product.qty) && Array.isArray(product.prc)) {
-        const priceLines = product.qty.map((qty, index) => {
-          const price = product.prc[index];
-          const priceStr = price ? `$${price}` : 'Contact for pricing';
-          return `• ${qty}+ units: *${priceStr}* each`;
-        });
+      if (product.pricing && product.pricing.length > 0) {
+        const priceLines = product.pricing.map((tier) => `• ${tier.qty}+ units: *$${tier.price.toFixed(2)}* each`);
         pricing = `*Base Quantity Pricing:*\n${priceLines.join('\n')}`;
       }
 
@@ -343,7 +318,7 @@ export const getProductDetailTool = tool({
       if (product.options && Array.isArray(product.options)) {
         const optionSections = product.options.map(option => {
           const optionLines = option.values.map(value => {
-            const firstPrice = value.prc && value.prc[0] ? `$${value.prc[0]}` : 'Contact for pricing';
+            const firstPrice = value.prc?.[0] ? `$${value.prc[0]}` : 'Contact for pricing';
             return `  • ${value.value}: ${firstPrice}`;
           }).slice(0, 3); // Limit to first 3 options to save space
           
@@ -474,7 +449,7 @@ export const checkInventoryTool = tool({
       }
 
       // Format inventory information
-      const inventoryDetails = inventoryResponse.inventory.map((item, index) => {
+      const inventoryDetails = inventoryResponse.inventory.map((item) => {
         const availability = item.available > 0 ? `✅ ${item.available} available` : '❌ Out of stock';
         const reserved = item.reserved > 0 ? ` (${item.reserved} reserved)` : '';
         const onOrder = item.onOrder > 0 ? ` | ${item.onOrder} on order` : '';
@@ -498,7 +473,7 @@ export const checkInventoryTool = tool({
 ${inventoryDetails}
 
 ---
-*Inventory levels are updated in real-time. Contact the supplier for custom quantity requirements.*`;
+*Inventory levels are updated in real-time. Contact the supplier for custom quantity requirements.*${totalAvailable === 0 ? '\n*Use watch_inventory to get notified in this thread when stock comes back.*' : ''}`;
 
       return [
         {
@@ -599,4 +574,310 @@ ${response.themes && response.themes.length > 20 ? `\n*...and ${response.themes.
       ];
     }
   },
-});
\ No newline at end of file
+});
+export const watchInventoryTool = tool({
+  name: "watch_inventory",
+  description: "Set up a restock alert for a promotional product. The inventory is re-checked on a schedule and a message is posted in this thread once available stock reaches the threshold. Use this when a product (or a specific SKU) is out of stock or low on stock.",
+  inputSchema: z.object({
+    productId: z.string().min(1, "Product ID is required").describe("The numeric product ID (prodEId) to watch"),
+    sku: z.string().optional().describe("Optional SKU to watch instead of the product's total inventory"),
+    threshold: z.number().int().positive().optional().default(1).describe("Notify when available units reach at least this number (default: 1)"),
+    days: z.number().int().min(1).max(MAX_WATCH_DAYS).optional().default(DEFAULT_WATCH_DAYS).describe(`How many days to keep watching before the alert expires (default: ${DEFAULT_WATCH_DAYS})`),
+  }),
+  execute: async ({ productId, sku, threshold, days }, { experimental_context }) => {
+    try {
+      const { channel, thread_ts, userId } = experimental_context as ExperimentalContext;
+
+      if (!channel) {
+        return [
+          {
+            role: "user" as const,
+            content: "Restock alerts can only be set up from a Slack conversation.",
+          },
+        ];
+      }
+
+      const client = getSageClient();
+
+      if (!client.validateProductId(productId)) {
+        return [
+          {
+            role: "user" as const,
+            content: `Invalid product ID: "${productId}". Please provide a valid product ID.`,
+          },
+        ];
+      }
+
+      await updateAgentStatus({
+        channel,
+        thread_ts,
+        status: `is setting up a restock alert for product ${productId}...`,
+      });
+
+      const watch = await createInventoryWatch({
+        productId,
+        sku,
+        threshold,
+        channel,
+        thread_ts,
+        userId,
+        days,
+      });
+
+      // Record the current level so the alert only fires when stock crosses the threshold
+      let currentLevel = '';
+      try {
+        const inventory = await client.checkInventory(productId);
+        const available = getWatchedAvailability(watch, inventory);
+        await updateInventoryWatch({
+          ...watch,
+          lastAvailable: available,
+          lastCheckedAt: new Date().toISOString(),
+        });
+        currentLevel = available >= threshold
+          ? `\n\nNote: ${available} units are already available, so the alert will only fire if stock drops below ${threshold} and comes back.`
+          : `\n\nCurrently available: ${available} units.`;
+      } catch (error) {
+        app.logger.warn(`Initial inventory check for watch ${watch.id} failed:`, error);
+      }
+
+      return [
+        {
+          role: "user" as const,
+          content: `**Restock alert created** (ID: ${watch.id})
+- Product: ${productId}${sku ? ` | SKU: ${sku}` : ''}
+- Notify when available units reach: ${threshold}
+- Expires: ${new Date(watch.expiresAt).toLocaleDateString()}${currentLevel}`,
+        },
+      ];
+
+    } catch (error) {
+      app.logger.error("Failed to create restock alert:", error);
+
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+
+      return [
+        {
+          role: "user" as const,
+          content: `Failed to set up restock alert: ${errorMessage}. Please try again later.`,
+        },
+      ];
+    }
+  },
+});
+
+export const listInventoryWatchesTool = tool({
+  name: "list_inventory_watches",
+  description: "List the active restock alerts for the current channel.",
+  inputSchema: z.object({}),
+  execute: async (_, { experimental_context }) => {
+    try {
+      const { channel } = experimental_context as ExperimentalContext;
+
+      const watches = await listInventoryWatches(channel);
+
+      if (watches.length === 0) {
+        return [
+          {
+            role: "user" as const,
+            content: "There are no active restock alerts in this channel.",
+          },
+        ];
+      }
+
+      const watchLines = watches.map((watch) => {
+        const skuInfo = watch.sku ? ` | SKU: ${watch.sku}` : '';
+        const lastLevel = watch.lastAvailable !== undefined ? ` | Last seen: ${watch.lastAvailable} available` : '';
+        return `- **${watch.id}:** Product ${watch.productId}${skuInfo} | Threshold: ${watch.threshold}${lastLevel} | Expires: ${new Date(watch.expiresAt).toLocaleDateString()}`;
+      }).join('\n');
+
+      return [
+        {
+          role: "user" as const,
+          content: `**Active Restock Alerts (${watches.length})**\n\n${watchLines}`,
+        },
+      ];
+
+    } catch (error) {
+      app.logger.error("Failed to list restock alerts:", error);
+
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+
+      return [
+        {
+          role: "user" as const,
+          content: `Failed to list restock alerts: ${errorMessage}`,
+        },
+      ];
+    }
+  },
+});
+
+export const cancelInventoryWatchTool = tool({
+  name: "cancel_inventory_watch",
+  description: "Cancel a restock alert by its ID. Use list_inventory_watches to find the ID.",
+  inputSchema: z.object({
+    watchId: z.string().min(1, "Watch ID is required").describe("The ID of the restock alert to cancel"),
+  }),
+  execute: async ({ watchId }, { experimental_context }) => {
+    try {
+      const { channel } = experimental_context as ExperimentalContext;
+
+      const watch = await getInventoryWatch(watchId);
+
+      if (!watch || (channel && watch.channel !== channel)) {
+        return [
+          {
+            role: "user" as const,
+            content: `No restock alert with ID "${watchId}" was found in this channel.`,
+          },
+        ];
+      }
+
+      await deleteInventoryWatch(watchId);
+
+      return [
+        {
+          role: "user" as const,
+          content: `Restock alert ${watchId} for product ${watch.productId} has been cancelled.`,
+        },
+      ];
+
+    } catch (error) {
+      app.logger.error("Failed to cancel restock alert:", error);
+
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+
+      return [
+        {
+          role: "user" as const,
+          content: `Failed to cancel restock alert: ${errorMessage}`,
+        },
+      ];
+    }
+  },
+});
+
+export const compareProductsTool = tool({
+  name: "compare_products",
+  description: "Compare 2-5 promotional products side by side: price breaks at common quantities, decoration methods, lead time, colors, eco-friendliness and supplier. Use this when the user asks to compare specific products. Requires numeric Product IDs (prodEId) from search results.",
+  inputSchema: z.object({
+    productIds: z.array(z.string().regex(/^\d+$/, "Use the numeric Product ID (prodEId)")).min(2).max(5).describe("2-5 numeric product IDs (prodEId) to compare"),
+    quantities: z.array(z.number().int().positive()).min(1).max(5).optional().describe(`Quantities to compare unit prices at (default: ${DEFAULT_COMPARISON_QUANTITIES.join(', ')})`),
+  }),
+  execute: async ({ productIds, quantities }, { experimental_context }) => {
+    try {
+      const { channel, thread_ts, artifacts } = experimental_context as ExperimentalContext;
+
+      const client = getSageClient();
+      const comparisonQuantities = [...new Set(quantities ?? DEFAULT_COMPARISON_QUANTITIES)].sort((a, b) => a - b);
+
+      await updateAgentStatus({
+        channel,
+        thread_ts,
+        status: `is comparing ${productIds.length} products...`,
+      });
+
+      const lookups = await Promise.allSettled(
+        productIds.map((productId) => client.getProductDetail(productId)),
+      );
+
+      const columns = lookups
+        .filter((lookup): lookup is PromiseFulfilledResult<ProductDetail> => lookup.status === 'fulfilled')
+        .map((lookup) => toComparisonColumn(lookup.value, comparisonQuantities));
+
+      const failedIds = productIds.filter((_, index) => lookups[index].status === 'rejected');
+
+      if (columns.length < 2) {
+        return [
+          {
+            role: "user" as const,
+            content: `Could not compare products: details could only be loaded for ${columns.length} of ${productIds.length} products${failedIds.length > 0 ? ` (failed: ${failedIds.join(', ')})` : ''}. Please check the product IDs and try again.`,
+          },
+        ];
+      }
+
+      const comparisonText = formatComparisonText(columns, comparisonQuantities);
+
+      artifacts?.addBlocks(comparisonText, buildComparisonBlocks(columns, comparisonQuantities));
+
+      return [
+        {
+          role: "user" as const,
+          content: `**Product Comparison**
+
+${comparisonText}
+${failedIds.length > 0 ? `\n*Could not load details for: ${failedIds.join(', ')}*\n` : ''}
+---
+*The comparison table will be posted in the thread after your reply. Summarize the key differences and recommend the best fit rather than repeating the table.*`,
+        },
+      ];
+
+    } catch (error) {
+      app.logger.error("Sage Connect product comparison failed:", error);
+
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+
+      return [
+        {
+          role: "user" as const,
+          content: `Failed to compare products: ${errorMessage}. Please try again or check the product IDs.`,
+        },
+      ];
+    }
+  },
+});
+
+export const sageUsageTool = tool({
+  name: "get_sage_usage",
+  description: "Get this month's Sage Connect API query usage against the paid monthly limit, broken down by service, plus response cache hit rates.",
+  inputSchema: z.object({}),
+  execute: async () => {
+    try {
+      const usage = await getSageClient().getUsage();
+      const cache = SageResponseCache.getMetrics();
+
+      const serviceNames: Record<number, string> = {
+        101: 'Categories & themes',
+        103: 'Product search',
+        105: 'Product detail',
+        107: 'Inventory',
+      };
+
+      const byService = Object.entries(usage.byService)
+        .map(([serviceId, count]) => `- ${serviceNames[Number(serviceId)] || `Service ${serviceId}`}: ${count.toLocaleString()}`)
+        .join('\n') || '- No queries yet this month';
+
+      const limitInfo = usage.monthlyLimit
+        ? `- Used: ${usage.total.toLocaleString()} of ${usage.monthlyLimit.toLocaleString()} (${((usage.percentUsed ?? 0) * 100).toFixed(1)}%)
+- Remaining: ${usage.remaining?.toLocaleString()}${usage.lowPriorityBlocked ? '\n- ⚠️ Speculative searches are paused to protect the remaining budget' : ''}`
+        : `- Used: ${usage.total.toLocaleString()} (no monthly limit configured)`;
+
+      return [
+        {
+          role: "user" as const,
+          content: `**Sage Connect Usage for ${usage.month}**
+
+${limitInfo}
+
+**By service:**
+${byService}
+
+**Response cache (this instance):** ${cache.hits.toLocaleString()} hits / ${cache.misses.toLocaleString()} misses (${(cache.hitRate * 100).toFixed(1)}% hit rate)`,
+        },
+      ];
+
+    } catch (error) {
+      app.logger.error("Failed to get Sage usage:", error);
+
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+
+      return [
+        {
+          role: "user" as const,
+          content: `Failed to get Sage Connect usage: ${errorMessage}`,
+        },
+      ];
+    }
+  },
+});
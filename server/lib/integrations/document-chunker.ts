@@ -0,0 +1,360 @@
+import {
+  GOOGLE_SHEET_MIME_TYPE,
+  GOOGLE_SLIDES_MIME_TYPE,
+  PDF_MIME_TYPE,
+} from "./document-extractors";
+
+export interface ChunkingOptions {
+  // Upper bound per chunk, in estimated embedding tokens
+  maxTokens: number;
+  // Trailing text repeated at the start of the next chunk within a section
+  overlapTokens: number;
+  // Start a new chunk at every heading instead of packing sections together
+  splitOnHeadings: boolean;
+}
+
+export interface TextChunk {
+  content: string;
+  startChar: number;
+  endChar: number;
+  headingPath: string[];
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  maxTokens: 350,
+  overlapTokens: 40,
+  splitOnHeadings: true,
+};
+
+/**
+ * Per-format overrides. Spreadsheet rows are self-contained, so they get no
+ * overlap; slides are short and better kept one or two per chunk.
+ */
+export const CHUNKING_OPTIONS_BY_MIME_TYPE: Record<
+  string,
+  Partial<ChunkingOptions>
+> = {
+  [GOOGLE_SHEET_MIME_TYPE]: { maxTokens: 300, overlapTokens: 0 },
+  [GOOGLE_SLIDES_MIME_TYPE]: { maxTokens: 250 },
+  [PDF_MIME_TYPE]: { splitOnHeadings: false },
+};
+
+export const getChunkingOptions = (mimeType?: string): ChunkingOptions => ({
+  ...DEFAULT_CHUNKING_OPTIONS,
+  ...(mimeType ? CHUNKING_OPTIONS_BY_MIME_TYPE[mimeType] : undefined),
+});
+
+/**
+ * Rough token count for OpenAI embedding models (about four characters per
+ * token for English text). Good enough for sizing chunks without shipping a
+ * tokenizer.
+ */
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / 4);
+
+interface Piece {
+  kind: "heading" | "paragraph" | "table";
+  text: string;
+  start: number;
+  end: number;
+  level?: number;
+  // Sentence from the same paragraph as the previous piece
+  continues?: boolean;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*$/;
+const TABLE_SEPARATOR_PATTERN = /^\|?\s*:?-{3,}/;
+
+/**
+ * Split content into headings, paragraphs and tables, keeping character
+ * offsets into the original text. Blank lines separate paragraphs.
+ */
+const parseBlocks = (content: string): Piece[] => {
+  const blocks: Piece[] = [];
+  let current: Piece | undefined;
+  let offset = 0;
+
+  const flush = () => {
+    if (current) {
+      blocks.push({
+        ...current,
+        text: content.slice(current.start, current.end),
+      });
+      current = undefined;
+    }
+  };
+
+  for (const rawLine of content.split("\n")) {
+    const start = offset;
+    const end = start + rawLine.length;
+    offset = end + 1;
+
+    const line = rawLine.trim();
+    if (!line) {
+      flush();
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      flush();
+      blocks.push({
+        kind: "heading",
+        text: heading[2],
+        level: heading[1].length,
+        start,
+        end,
+      });
+      continue;
+    }
+
+    const kind = line.startsWith("|") ? "table" : "paragraph";
+    if (current && current.kind !== kind) {
+      flush();
+    }
+
+    if (current) {
+      current.end = end;
+    } else {
+      current = { kind, text: "", start, end };
+    }
+  }
+
+  flush();
+  return blocks;
+};
+
+/**
+ * Hard-split text at whitespace when a single sentence or row is too long.
+ */
+const splitByLength = (
+  text: string,
+  start: number,
+  maxTokens: number,
+): Piece[] => {
+  const maxChars = maxTokens * 4;
+  const pieces: Piece[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    let end = Math.min(position + maxChars, text.length);
+    if (end < text.length) {
+      const lastSpace = text.lastIndexOf(" ", end);
+      if (lastSpace > position) end = lastSpace;
+    }
+
+    const slice = text.slice(position, end);
+    if (slice.trim()) {
+      pieces.push({
+        kind: "paragraph",
+        text: slice.trim(),
+        start: start + position,
+        end: start + end,
+      });
+    }
+    position = end;
+  }
+
+  return pieces;
+};
+
+/**
+ * Break an oversized paragraph into sentences. Sentences are packed back
+ * together by chunkDocument, which lets overlap carry whole sentences.
+ */
+const splitParagraph = (block: Piece, maxTokens: number): Piece[] => {
+  const pieces: Piece[] = [];
+
+  for (const match of block.text.matchAll(
+    /[^.!?\n]+(?:[.!?]+["')\]]*|\n|$)\s*/g,
+  )) {
+    const sentence = match[0];
+    if (!sentence.trim()) continue;
+
+    const start = block.start + (match.index ?? 0);
+
+    if (estimateTokens(sentence) > maxTokens) {
+      pieces.push(...splitByLength(sentence, start, maxTokens));
+    } else {
+      pieces.push({
+        kind: "paragraph",
+        text: sentence.trim(),
+        start,
+        end: start + sentence.trimEnd().length,
+      });
+    }
+  }
+
+  return pieces.map((piece, index) => ({ ...piece, continues: index > 0 }));
+};
+
+/**
+ * Break an oversized table into groups of whole rows, repeating the header
+ * row in every group so each chunk is readable on its own.
+ */
+const splitTable = (block: Piece, maxTokens: number): Piece[] => {
+  const lines: Array<{ text: string; start: number; end: number }> = [];
+  let offset = block.start;
+  for (const text of block.text.split("\n")) {
+    lines.push({ text, start: offset, end: offset + text.length });
+    offset += text.length + 1;
+  }
+
+  const hasHeader =
+    lines.length > 1 && TABLE_SEPARATOR_PATTERN.test(lines[1].text.trim());
+  const header = hasHeader ? `${lines[0].text}\n${lines[1].text}` : "";
+  const rows = hasHeader ? lines.slice(2) : lines;
+
+  const pieces: Piece[] = [];
+  let current: Piece | undefined;
+
+  for (const row of rows) {
+    if (current && estimateTokens(`${current.text}\n${row.text}`) > maxTokens) {
+      pieces.push(current);
+      current = undefined;
+    }
+
+    if (current) {
+      current.text += `\n${row.text}`;
+      current.end = row.end;
+    } else {
+      const text = header ? `${header}\n${row.text}` : row.text;
+      // A single row wider than the budget can only be split as text
+      if (estimateTokens(text) > maxTokens) {
+        pieces.push(...splitByLength(row.text, row.start, maxTokens));
+        continue;
+      }
+      current = {
+        kind: "table",
+        text,
+        start: pieces.length === 0 ? block.start : row.start,
+        end: row.end,
+      };
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+const render = (pieces: Piece[]): string =>
+  pieces
+    .map(
+      (piece, index) =>
+        (index === 0 ? "" : piece.continues ? " " : "\n\n") + piece.text,
+    )
+    .join("");
+
+/**
+ * Chunk a document along its structure: headings start new sections,
+ * paragraphs and tables are packed whole up to the token budget, and only
+ * blocks that exceed the budget on their own are split (by sentence or by
+ * table row). Each chunk records the heading path it sits under.
+ */
+export const chunkDocument = (
+  content: string,
+  options: Partial<ChunkingOptions> = {},
+): TextChunk[] => {
+  const { maxTokens, overlapTokens, splitOnHeadings } = {
+    ...DEFAULT_CHUNKING_OPTIONS,
+    ...options,
+  };
+
+  const chunks: TextChunk[] = [];
+  const headingStack: Array<{ level: number; text: string }> = [];
+  let pending: Piece[] = [];
+  let pendingPath: string[] = [];
+
+  const fits = (piece: Piece) =>
+    estimateTokens(render([...pending, piece])) <= maxTokens;
+  const hasBody = () => pending.some((piece) => piece.kind !== "heading");
+
+  const flush = (carryOverlap: boolean) => {
+    if (!hasBody()) {
+      return;
+    }
+
+    chunks.push({
+      content: render(pending),
+      startChar: pending[0].start,
+      endChar: pending[pending.length - 1].end,
+      headingPath: pendingPath,
+    });
+
+    // Repeat trailing paragraphs in the next chunk so sentences that depend
+    // on the previous one keep their context. Tables repeat their header
+    // instead.
+    const carried: Piece[] = [];
+    if (carryOverlap && overlapTokens > 0) {
+      let tokens = 0;
+      for (let i = pending.length - 1; i > 0; i--) {
+        const piece = pending[i];
+        const pieceTokens = estimateTokens(piece.text);
+        if (piece.kind !== "paragraph" || tokens + pieceTokens > overlapTokens)
+          break;
+        carried.unshift(piece);
+        tokens += pieceTokens;
+      }
+    }
+    pending = carried;
+  };
+
+  for (const block of parseBlocks(content)) {
+    if (block.kind === "heading") {
+      const level = block.level ?? 1;
+      while (
+        headingStack.length > 0 &&
+        headingStack[headingStack.length - 1].level >= level
+      ) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, text: block.text });
+
+      if (splitOnHeadings || !hasBody()) {
+        flush(false);
+        // Drop headings that never got any content of their own
+        pending = [];
+        pendingPath = headingStack.map((heading) => heading.text);
+      }
+
+      pending.push({
+        ...block,
+        text: content.slice(block.start, block.end).trim(),
+      });
+      continue;
+    }
+
+    // Headings waiting for their first body text share its chunk, unless
+    // they would leave it too little room
+    const headingTokens =
+      hasBody() || pending.length === 0
+        ? 0
+        : estimateTokens(`${render(pending)}\n\n`);
+    const budget =
+      headingTokens < maxTokens / 2 ? maxTokens - headingTokens : maxTokens;
+    const pieces =
+      estimateTokens(block.text) <= budget
+        ? [block]
+        : block.kind === "table"
+          ? splitTable(block, budget)
+          : splitParagraph(block, budget);
+
+    for (const piece of pieces) {
+      if (hasBody() && !fits(piece)) {
+        flush(piece.kind === "paragraph");
+        // Overlap is best-effort and never pushes a chunk past the budget
+        if (!fits(piece)) {
+          pending = [];
+        }
+      }
+
+      if (!hasBody()) {
+        pendingPath = headingStack.map((heading) => heading.text);
+      }
+      pending.push(piece);
+    }
+  }
+
+  flush(false);
+  return chunks;
+};
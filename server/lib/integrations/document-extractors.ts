@@ -0,0 +1,161 @@
+export const GOOGLE_DOC_MIME_TYPE = "application/vnd.google-apps.document";
+export const GOOGLE_SHEET_MIME_TYPE = "application/vnd.google-apps.spreadsheet";
+export const GOOGLE_SLIDES_MIME_TYPE =
+  "application/vnd.google-apps.presentation";
+export const PDF_MIME_TYPE = "application/pdf";
+export const DOCX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+/**
+ * Formats Google Workspace files are exported as. Markdown keeps Docs
+ * headings and tables; Drive only exports the first tab of a Sheet as CSV.
+ */
+export const GOOGLE_EXPORT_MIME_TYPES: Record<string, string> = {
+  [GOOGLE_DOC_MIME_TYPE]: "text/markdown",
+  [GOOGLE_SHEET_MIME_TYPE]: "text/csv",
+  [GOOGLE_SLIDES_MIME_TYPE]: "text/plain",
+};
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+
+// Entities are decoded once at the end so decoded "<" can't be mistaken for a tag
+const stripTags = (html: string): string =>
+  html
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const toMarkdownTable = (rows: string[][]): string => {
+  const width = Math.max(...rows.map((row) => row.length));
+  const cells = rows.map((row) =>
+    Array.from({ length: width }, (_, index) =>
+      (row[index] ?? "").replace(/\|/g, "\\|"),
+    ),
+  );
+
+  const [header, ...body] = cells;
+  return [
+    `| ${header.join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...body.map((row) => `| ${row.join(" | ")} |`),
+  ].join("\n");
+};
+
+/**
+ * Convert the limited HTML mammoth produces into markdown, keeping headings,
+ * lists and tables so the chunker can split on structure.
+ */
+export const htmlToMarkdown = (html: string): string => {
+  const markdown = html
+    .replace(/<table[^>]*>([\s\S]*?)<\/table>/gi, (_, table: string) => {
+      const rows = Array.from(
+        table.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi),
+        ([, row]) =>
+          Array.from(
+            row.matchAll(/<t[hd][^>]*>([\s\S]*?)<\/t[hd]>/gi),
+            ([, cell]) => stripTags(cell),
+          ),
+      ).filter((row) => row.length > 0);
+
+      return rows.length > 0 ? `\n\n${toMarkdownTable(rows)}\n\n` : "";
+    })
+    .replace(
+      /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi,
+      (_, level: string, text: string) =>
+        `\n\n${"#".repeat(Number(level))} ${stripTags(text)}\n\n`,
+    )
+    .replace(
+      /<li[^>]*>([\s\S]*?)<\/li>/gi,
+      (_, text: string) => `\n- ${stripTags(text)}`,
+    )
+    .replace(/<\/(p|ul|ol)>/gi, "\n\n")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(markdown)
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
+
+/**
+ * Parse CSV (RFC 4180 quoting) into rows.
+ */
+export const parseCsv = (csv: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && csv[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Sheets pads exports with empty rows and columns
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+export const csvToMarkdown = (csv: string): string => {
+  const rows = parseCsv(csv).map((row) =>
+    row.map((cell) => cell.replace(/\s+/g, " ").trim()),
+  );
+  return rows.length > 0 ? toMarkdownTable(rows) : "";
+};
+
+/**
+ * Extract text from a PDF, one block per page. Uses unpdf's serverless build
+ * of PDF.js, which needs no canvas or worker.
+ */
+export const extractPdfText = async (buffer: Buffer): Promise<string> => {
+  const { extractText, getDocumentProxy } = await import("unpdf");
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { text } = await extractText(pdf, { mergePages: false });
+
+  return text
+    .map((page) => page.trim())
+    .filter(Boolean)
+    .join("\n\n");
+};
+
+export const extractDocxText = async (buffer: Buffer): Promise<string> => {
+  const { default: mammoth } = await import("mammoth");
+  const { value } = await mammoth.convertToHtml({ buffer });
+  return htmlToMarkdown(value);
+};
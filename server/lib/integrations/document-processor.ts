@@ -1,5 +1,52 @@
-import { GoogleDriveClient, type ProcessedDocument } from './google-drive';
-import { PineconeClient } from './pinecone';
+import { app } from '~/app';
+import { createEmbeddingProvider } from './embeddings';
+import {
+  type DriveChange,
+  FOLDER_MIME_TYPE,
+  GoogleDriveClient,
+  type GoogleDriveFile,
+  type ProcessedDocument,
+  SUPPORTED_MIME_TYPES,
+} from './google-drive';
+import {
+  type ExcludedFileRecord,
+  type FailedFileRecord,
+  hashContent,
+  type IndexedFileRecord,
+  KnowledgeIndexState,
+} from './knowledge-index-state';
+import {
+  DEFAULT_NAMESPACE,
+  getNamespaceChannels,
+  getNamespaceFolders,
+  getNamespaceForFolder,
+  type NamespaceFolder,
+} from './knowledge-namespaces';
+import { LexicalIndex, reciprocalRankFusion } from './lexical-index';
+import { isSlackItemId, SlackKnowledgeSource } from './slack-knowledge';
+import {
+  createVectorStore,
+  type EmbeddingProvider,
+  getEmbeddingModelId,
+  type SearchResult,
+  type VectorStore,
+  type VectorStoreStats,
+} from './vector-store';
+
+export type KnowledgeSearchMode = 'hybrid' | 'vector' | 'keyword';
+
+export interface KnowledgeSearchOptions {
+  mode?: KnowledgeSearchMode;
+  // Identifiers (SKUs, supplier names, policy numbers) that should rank
+  // chunks containing them verbatim above looser matches
+  exactTerms?: string[];
+  // Namespaces the caller may search; all of them when unset
+  namespaces?: string[];
+}
+
+// In hybrid mode keyword evidence can rescue weaker vector matches, so the
+// similarity cutoff is relaxed to this floor
+const HYBRID_MIN_VECTOR_SCORE = 0.5;
 
 export interface DocumentProcessingResult {
   success: boolean;
@@ -7,98 +54,174 @@ export interface DocumentProcessingResult {
   processedFiles: number;
   failedFiles: number;
   totalChunks: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
   errors: Array<{
     fileName: string;
     error: string;
   }>;
 }
 
+export interface KnowledgeRegistry {
+  documents: IndexedFileRecord[];
+  failures: FailedFileRecord[];
+  exclusions: ExcludedFileRecord[];
+  // Undefined when the vector store can't be reached
+  stats?: VectorStoreStats;
+}
+
+const createProcessingResult = (): DocumentProcessingResult => ({
+  success: false,
+  totalFiles: 0,
+  processedFiles: 0,
+  failedFiles: 0,
+  totalChunks: 0,
+  added: 0,
+  updated: 0,
+  unchanged: 0,
+  removed: 0,
+  errors: [],
+});
+
+const mergeProcessingResults = (...results: DocumentProcessingResult[]): DocumentProcessingResult => ({
+  success: results.every(result => result.success),
+  totalFiles: results.reduce((sum, result) => sum + result.totalFiles, 0),
+  processedFiles: results.reduce((sum, result) => sum + result.processedFiles, 0),
+  failedFiles: results.reduce((sum, result) => sum + result.failedFiles, 0),
+  totalChunks: results.reduce((sum, result) => sum + result.totalChunks, 0),
+  added: results.reduce((sum, result) => sum + result.added, 0),
+  updated: results.reduce((sum, result) => sum + result.updated, 0),
+  unchanged: results.reduce((sum, result) => sum + result.unchanged, 0),
+  removed: results.reduce((sum, result) => sum + result.removed, 0),
+  errors: results.flatMap(result => result.errors),
+});
+
 export class DocumentProcessor {
   private googleDrive: GoogleDriveClient;
-  private pinecone: PineconeClient;
+  private embeddings: EmbeddingProvider;
+  private vectorStore: VectorStore;
+  private indexState: KnowledgeIndexState;
+  private lexicalIndex: LexicalIndex;
+  private slackSource: SlackKnowledgeSource;
+  private embeddingModelChecked = false;
 
   constructor() {
     this.googleDrive = new GoogleDriveClient();
-    this.pinecone = new PineconeClient();
+    this.slackSource = new SlackKnowledgeSource();
+    this.embeddings = createEmbeddingProvider();
+    this.vectorStore = createVectorStore(this.embeddings);
+    this.indexState = new KnowledgeIndexState();
+    this.lexicalIndex = new LexicalIndex();
   }
 
-  async initializePinecone(): Promise<void> {
-    try {
-      await this.pinecone.initialize();
-    } catch (error) {
-      // If index doesn't exist, try to create it
-      if (error instanceof Error && error.message.includes('not found')) {
-        console.info('Pinecone index not found, creating new index...');
-        await this.pinecone.createIndex();
-      } else {
-        throw error;
-      }
+  /**
+   * Connect to the vector store, refusing an index built with a different
+   * embedding model: its vectors aren't comparable with new ones, even at
+   * the same dimension. refreshKnowledge() rebuilds such an index.
+   */
+  async initializeVectorStore(): Promise<void> {
+    await this.vectorStore.initialize();
+    if (this.embeddingModelChecked) return;
+
+    const indexedModel = await this.findEmbeddingModelMismatch();
+    if (indexedModel !== undefined) {
+      throw new Error(
+        `The knowledge index was built with ${indexedModel ?? 'an unrecorded embedding model'}, but ${getEmbeddingModelId(this.embeddings)} is configured. Refresh the knowledge base to rebuild it.`
+      );
+    }
+    this.embeddingModelChecked = true;
+  }
+
+  /**
+   * The embedding model the index was built with when it isn't the current
+   * one: null when files were indexed before the model was recorded (e.g.
+   * with text-embedding-ada-002, the old default). An empty index is
+   * claimed for the current model.
+   */
+  private async findEmbeddingModelMismatch(): Promise<string | null | undefined> {
+    const currentModel = getEmbeddingModelId(this.embeddings);
+    const indexedModel = await this.indexState.getEmbeddingModel();
+    if (indexedModel) {
+      return indexedModel === currentModel ? undefined : indexedModel;
+    }
+    if ((await this.indexState.list()).length > 0) {
+      return null;
     }
+    await this.indexState.setEmbeddingModel(currentModel);
+    return undefined;
   }
 
-  async processGoogleDriveFolder(folderId?: string): Promise<DocumentProcessingResult> {
-    const folderIdToProcess = folderId || process.env.GOOGLE_DRIVE_FOLDER_ID;
+  async processGoogleDriveFolder(folderId?: string | string[]): Promise<DocumentProcessingResult> {
+    const roots: NamespaceFolder[] = folderId
+      ? [folderId].flat().map(id => ({ folderId: id, namespace: getNamespaceForFolder(id) }))
+      : getNamespaceFolders();
     
-    if (!folderIdToProcess) {
-      throw new Error('No Google Drive folder ID provided. Set GOOGLE_DRIVE_FOLDER_ID environment variable or pass folderId parameter.');
+    if (roots.length === 0) {
+      throw new Error('No Google Drive folder ID provided. Set GOOGLE_DRIVE_FOLDER_ID (comma-separate multiple folders) or KNOWLEDGE_NAMESPACES, or pass folderId parameter.');
     }
 
-    console.info(`Starting document processing for folder: ${folderIdToProcess}`);
+    console.info(`Starting document processing for folders: ${roots.map(root => `${root.folderId} (${root.namespace})`).join(', ')}`);
 
-    const result: DocumentProcessingResult = {
-      success: false,
-      totalFiles: 0,
-      processedFiles: 0,
-      failedFiles: 0,
-      totalChunks: 0,
-      errors: [],
-    };
+    const result = createProcessingResult();
 
     try {
-      // Initialize Pinecone
-      await this.initializePinecone();
+      // Initialize vector store
+      await this.initializeVectorStore();
+
+      // Root folders may overlap, so keep the first listing of each file
+      const filesById = new Map<string, GoogleDriveFile>();
+      for (const root of roots) {
+        for (const file of await this.googleDrive.listFilesInFolder(root.folderId)) {
+          if (!filesById.has(file.id)) filesById.set(file.id, { ...file, namespace: root.namespace });
+        }
+      }
+      // Excluded files are treated as if they weren't in Drive
+      const excludedIds = new Set((await this.indexState.listExclusions()).map(record => record.fileId));
+      const files = Array.from(filesById.values()).filter(file => !excludedIds.has(file.id));
+      result.totalFiles = files.length;
 
-      // Process documents from Google Drive
-      const processedDocuments = await this.googleDrive.processFolder(folderIdToProcess);
-      result.totalFiles = processedDocuments.length;
+      // Files we indexed before that are no longer listed were deleted or
+      // trashed in Drive (trashed files are excluded from the listing). When
+      // only some folders were listed, files under the other roots weren't
+      // listed either, so only namespaces whose roots were all listed are
+      // cleaned up; a full refresh covers the rest.
+      const listedIds = new Set(files.map(file => file.id));
+      const listedNamespaces = folderId ? this.fullyListedNamespaces(roots) : undefined;
+      for (const record of await this.indexState.list()) {
+        if (isSlackItemId(record.fileId) || listedIds.has(record.fileId)) continue;
+        if (listedNamespaces && !listedNamespaces.has(record.namespace || DEFAULT_NAMESPACE)) continue;
+        await this.removeFile(record, result);
+      }
+      // Failure records don't keep their namespace, so they're only cleared
+      // after listing every root
+      if (!listedNamespaces) {
+        for (const failure of await this.indexState.listFailures()) {
+          if (isSlackItemId(failure.fileId) || listedIds.has(failure.fileId)) continue;
+          await this.indexState.clearFailure(failure.fileId);
+        }
+      }
 
-      if (processedDocuments.length === 0) {
+      if (files.length === 0) {
         console.warn('No documents found to process');
         result.success = true;
         return result;
       }
 
-      // Index documents in Pinecone
-      for (const doc of processedDocuments) {
-        try {
-          // Delete existing chunks for this file (in case it was updated)
-          await this.pinecone.deleteDocumentChunks(doc.fileId);
-          
-          // Add new chunks
-          await this.pinecone.upsertDocumentChunks(doc.chunks);
-          
-          result.processedFiles++;
-          result.totalChunks += doc.chunks.length;
-          
-          console.info(`Successfully indexed ${doc.fileName} (${doc.chunks.length} chunks)`);
-        } catch (error) {
-          result.failedFiles++;
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          result.errors.push({
-            fileName: doc.fileName,
-            error: errorMessage,
-          });
-          
-          console.error(`Failed to index ${doc.fileName}:`, error);
-        }
+      for (const file of files) {
+        await this.indexFile(file, result);
       }
 
-      result.success = result.processedFiles > 0;
+      result.success = result.failedFiles < result.totalFiles;
       
       // Log summary
       console.info(`Document processing complete:`, {
         totalFiles: result.totalFiles,
-        processedFiles: result.processedFiles,
+        added: result.added,
+        updated: result.updated,
+        unchanged: result.unchanged,
+        removed: result.removed,
         failedFiles: result.failedFiles,
         totalChunks: result.totalChunks,
       });
@@ -111,24 +234,464 @@ export class DocumentProcessor {
     }
   }
 
+  /**
+   * Namespaces whose configured root folders are all among `roots`.
+   */
+  private fullyListedNamespaces(roots: NamespaceFolder[]): Set<string> {
+    const listed = new Set(roots.map(root => root.folderId));
+    const namespaces = new Set(roots.map(root => root.namespace));
+    for (const folder of getNamespaceFolders()) {
+      if (!listed.has(folder.folderId)) namespaces.delete(folder.namespace);
+    }
+    return namespaces;
+  }
+
+  /**
+   * Index canvases and pinned messages from the channels in
+   * KNOWLEDGE_SLACK_CHANNELS, and remove Slack items that were unpinned,
+   * deleted or are in channels no longer configured. Items in a channel that
+   * can't be read are left alone rather than removed.
+   */
+  async processSlackChannels(): Promise<DocumentProcessingResult> {
+    const channels = getNamespaceChannels();
+    const result = createProcessingResult();
+
+    await this.initializeVectorStore();
+
+    const excludedIds = new Set((await this.indexState.listExclusions()).map(record => record.fileId));
+    // Canvases shared in several channels are indexed once, under the first
+    const itemsById = new Map<string, GoogleDriveFile>();
+    let complete = true;
+
+    for (const channel of channels) {
+      try {
+        for (const item of await this.slackSource.listChannelItems(channel)) {
+          if (!itemsById.has(item.id) && !excludedIds.has(item.id)) itemsById.set(item.id, item);
+        }
+      } catch (error) {
+        complete = false;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        result.errors.push({ fileName: `Slack channel ${channel.channel}`, error: errorMessage });
+        console.error(`Failed to list knowledge items in Slack channel ${channel.channel}:`, error);
+      }
+    }
+
+    const items = Array.from(itemsById.values());
+    result.totalFiles = items.length;
+
+    if (complete) {
+      for (const record of await this.indexState.list()) {
+        if (!isSlackItemId(record.fileId) || itemsById.has(record.fileId)) continue;
+        await this.removeFile(record, result);
+      }
+      for (const failure of await this.indexState.listFailures()) {
+        if (!isSlackItemId(failure.fileId) || itemsById.has(failure.fileId)) continue;
+        await this.indexState.clearFailure(failure.fileId);
+      }
+    }
+
+    for (const item of items) {
+      await this.indexFile(item, result);
+    }
+
+    result.success = complete && (items.length === 0 || result.failedFiles < result.totalFiles);
+
+    console.info(`Slack knowledge sync complete:`, {
+      channels: channels.length,
+      totalItems: result.totalFiles,
+      added: result.added,
+      updated: result.updated,
+      unchanged: result.unchanged,
+      removed: result.removed,
+      failedFiles: result.failedFiles,
+    });
+
+    return result;
+  }
+
+  /**
+   * Apply Drive changes since `pageToken` (from changes.list) to the index:
+   * changed files under a configured root are re-indexed, deleted, trashed
+   * or moved-out files are removed, and everything else is ignored. Folder
+   * renames and moves only reach files that change later or the next
+   * refresh, which also retries files that failed here.
+   */
+  async syncDriveChanges(pageToken: string): Promise<{ result: DocumentProcessingResult; nextPageToken: string }> {
+    const result = createProcessingResult();
+    const roots = getNamespaceFolders();
+
+    await this.initializeVectorStore();
+
+    const { changes, newStartPageToken } = await this.googleDrive.listChanges(pageToken);
+
+    // A file edited several times shows up once per edit; the last change wins
+    const latest = new Map<string, DriveChange>();
+    for (const change of changes) {
+      latest.set(change.fileId, change);
+    }
+
+    const folderCache = new Map<string, { name: string; parents: string[] }>();
+
+    for (const change of latest.values()) {
+      if (await this.indexState.isExcluded(change.fileId)) continue;
+
+      const record = await this.indexState.get(change.fileId);
+      const file = change.file;
+
+      if (change.removed || !file || file.trashed) {
+        await this.forgetFile(change.fileId, record, result);
+        continue;
+      }
+
+      if (file.mimeType === FOLDER_MIME_TYPE || !SUPPORTED_MIME_TYPES.includes(file.mimeType)) {
+        continue;
+      }
+
+      try {
+        const resolved = await this.resolveDriveFile(file, roots, folderCache);
+
+        if (!resolved) {
+          // Moved out of every configured folder
+          await this.forgetFile(change.fileId, record, result);
+          continue;
+        }
+
+        result.totalFiles++;
+        await this.indexFile(resolved, result);
+      } catch (error) {
+        result.failedFiles++;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        result.errors.push({ fileName: file.name, error: errorMessage });
+        console.error(`Failed to sync change for ${file.name}:`, error);
+      }
+    }
+
+    result.success = result.failedFiles === 0;
+
+    console.info(`Drive change sync complete:`, {
+      changes: changes.length,
+      added: result.added,
+      updated: result.updated,
+      unchanged: result.unchanged,
+      removed: result.removed,
+      failedFiles: result.failedFiles,
+    });
+
+    return { result, nextPageToken: newStartPageToken };
+  }
+
+  /**
+   * Re-index one file from scratch, even if it hasn't changed. Used by the
+   * App Home admin view.
+   */
+  async reindexFile(fileId: string): Promise<DocumentProcessingResult> {
+    const result = createProcessingResult();
+
+    await this.initializeVectorStore();
+
+    const record = await this.indexState.get(fileId);
+    let name = record?.fileName || fileId;
+    let resolved: GoogleDriveFile | undefined;
+
+    if (isSlackItemId(fileId)) {
+      resolved = await this.slackSource.getItem(fileId, getNamespaceChannels());
+    } else {
+      const file = await this.googleDrive.getFile(fileId);
+      name = file.name;
+      resolved = file.trashed ? undefined : await this.resolveDriveFile(file, getNamespaceFolders());
+    }
+
+    if (!resolved) {
+      await this.forgetFile(fileId, record, result);
+      throw new Error(`${name} is no longer in a configured knowledge folder or channel`);
+    }
+
+    result.totalFiles = 1;
+    await this.indexFile(resolved, result, { force: true });
+    result.success = result.failedFiles === 0;
+    return result;
+  }
+
+  /**
+   * Remove a file from the index and skip it in future syncs until it is
+   * included again.
+   */
+  async excludeFile(fileId: string, excludedBy?: string): Promise<void> {
+    await this.initializeVectorStore();
+
+    const record = await this.indexState.get(fileId);
+    const failure = (await this.indexState.listFailures()).find(item => item.fileId === fileId);
+
+    await this.indexState.exclude({
+      fileId,
+      fileName: record?.fileName || failure?.fileName || fileId,
+      excludedBy,
+      excludedAt: new Date().toISOString(),
+    });
+    await this.forgetFile(fileId, record, createProcessingResult());
+  }
+
+  async includeFile(fileId: string): Promise<DocumentProcessingResult> {
+    await this.indexState.include(fileId);
+    return this.reindexFile(fileId);
+  }
+
+  /**
+   * Everything the admin view shows: indexed documents (most recently
+   * indexed first), extraction failures and exclusions.
+   */
+  async getRegistry(): Promise<KnowledgeRegistry> {
+    const [documents, failures, exclusions] = await Promise.all([
+      this.indexState.list(),
+      this.indexState.listFailures(),
+      this.indexState.listExclusions(),
+    ]);
+
+    let stats: VectorStoreStats | undefined;
+    try {
+      stats = await this.getIndexStats();
+    } catch {
+      stats = undefined;
+    }
+
+    return {
+      documents: documents.sort((a, b) => b.indexedAt.localeCompare(a.indexedAt)),
+      failures: failures.sort((a, b) => b.failedAt.localeCompare(a.failedAt)),
+      exclusions: exclusions.sort((a, b) => b.excludedAt.localeCompare(a.excludedAt)),
+      stats,
+    };
+  }
+
+  /**
+   * Work out where a Drive file sits in the configured roots. Returns
+   * undefined when it isn't under any of them.
+   */
+  private async resolveDriveFile(
+    file: NonNullable<DriveChange['file']>,
+    roots: NamespaceFolder[],
+    folderCache?: Map<string, { name: string; parents: string[] }>
+  ): Promise<GoogleDriveFile | undefined> {
+    const reachable = await this.googleDrive.findRootFolders(
+      file.parents || [],
+      roots.map(root => root.folderId),
+      folderCache
+    );
+    // Same precedence as a full refresh: the first configured root wins
+    const root = roots.find(candidate => reachable.has(candidate.folderId));
+    if (!root) return undefined;
+
+    return {
+      id: file.id,
+      name: file.name,
+      mimeType: file.mimeType,
+      modifiedTime: file.modifiedTime,
+      size: file.size,
+      webViewLink: file.webViewLink,
+      folderPath: reachable.get(root.folderId),
+      namespace: root.namespace,
+    };
+  }
+
+  /**
+   * Index one file, skipping it when unchanged (unless forced) and
+   * replacing its chunks when its content changed. Failures are recorded on
+   * the result and in the registry, not thrown.
+   */
+  private async indexFile(
+    file: GoogleDriveFile,
+    result: DocumentProcessingResult,
+    options: { force?: boolean } = {}
+  ): Promise<void> {
+    try {
+      const existing = await this.indexState.get(file.id);
+      const existingNamespace = existing?.namespace || DEFAULT_NAMESPACE;
+      // A file moved to a root in another namespace has to be re-indexed
+      // there; vectors can't move between namespaces
+      const sameNamespace = existingNamespace === file.namespace;
+
+      // Drive bumps modifiedTime on every edit, so an unchanged timestamp
+      // means we can skip the download entirely
+      if (!options.force && existing && sameNamespace && existing.modifiedTime === file.modifiedTime) {
+        await this.syncFileMetadata(existing, file);
+        result.unchanged++;
+        return;
+      }
+
+      const doc = isSlackItemId(file.id)
+        ? await this.processSlackItem(file)
+        : await this.googleDrive.processDocument(file);
+      const contentHash = hashContent(doc.content);
+
+      // Metadata-only edits (renames, sharing changes) keep the same text
+      if (!options.force && existing && sameNamespace && existing.contentHash === contentHash) {
+        await this.syncFileMetadata(existing, file);
+        result.unchanged++;
+        return;
+      }
+
+      if (existing) {
+        // Delete existing chunks so a shorter revision leaves no stale chunks behind
+        await this.vectorStore.deleteByFile(doc.fileId, existingNamespace);
+      }
+
+      await this.vectorStore.upsert(doc.chunks);
+      await this.lexicalIndex.setFileChunks(doc.fileId, doc.chunks);
+
+      await this.indexState.set({
+        fileId: doc.fileId,
+        fileName: doc.fileName,
+        folderPath: doc.folderPath,
+        namespace: doc.namespace,
+        webViewLink: doc.webViewLink,
+        modifiedTime: doc.modifiedTime,
+        contentHash,
+        chunkCount: doc.chunks.length,
+        indexedAt: new Date().toISOString(),
+      });
+
+      if (existing) {
+        result.updated++;
+      } else {
+        result.added++;
+      }
+      result.processedFiles++;
+      result.totalChunks += doc.chunks.length;
+      await this.indexState.clearFailure(doc.fileId);
+      
+      console.info(`Successfully indexed ${doc.fileName} (${doc.chunks.length} chunks)`);
+    } catch (error) {
+      result.failedFiles++;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      result.errors.push({
+        fileName: file.name,
+        error: errorMessage,
+      });
+      await this.indexState.setFailure({
+        fileId: file.id,
+        fileName: file.name,
+        folderPath: file.folderPath,
+        webViewLink: file.webViewLink,
+        modifiedTime: file.modifiedTime,
+        error: errorMessage,
+        failedAt: new Date().toISOString(),
+      });
+      
+      console.error(`Failed to index ${file.name}:`, error);
+    }
+  }
+
+  private async processSlackItem(item: GoogleDriveFile): Promise<ProcessedDocument> {
+    const content = await this.slackSource.loadContent(item);
+
+    return {
+      fileId: item.id,
+      fileName: item.name,
+      content,
+      chunks: this.googleDrive.createDocumentChunks(content, item.id, item.name, {
+        webViewLink: item.webViewLink,
+        folderPath: item.folderPath,
+        namespace: item.namespace,
+        mimeType: item.mimeType,
+      }),
+      mimeType: item.mimeType,
+      modifiedTime: item.modifiedTime,
+      webViewLink: item.webViewLink,
+      folderPath: item.folderPath,
+      namespace: item.namespace,
+    };
+  }
+
+  /**
+   * Drop a file from the index (if it was indexed) and from the failure list.
+   */
+  private async forgetFile(fileId: string, record: IndexedFileRecord | null, result: DocumentProcessingResult): Promise<void> {
+    if (record) {
+      await this.removeFile(record, result);
+    } else {
+      await this.indexState.clearFailure(fileId);
+    }
+  }
+
+  private async removeFile(record: IndexedFileRecord, result: DocumentProcessingResult): Promise<void> {
+    try {
+      await this.vectorStore.deleteByFile(record.fileId, record.namespace || DEFAULT_NAMESPACE);
+      await this.lexicalIndex.removeFile(record.fileId);
+      await this.indexState.remove(record.fileId);
+      await this.indexState.clearFailure(record.fileId);
+      result.removed++;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      result.errors.push({ fileName: record.fileName, error: `Failed to remove: ${errorMessage}` });
+    }
+  }
+
+  /**
+   * Patch chunk metadata for renamed or moved files instead of re-embedding.
+   */
+  private async syncFileMetadata(existing: IndexedFileRecord, file: GoogleDriveFile): Promise<void> {
+    // Files indexed before the keyword index existed are copied over from
+    // the vector store, which keeps chunk text in metadata
+    if (!(await this.lexicalIndex.hasFile(existing.fileId))) {
+      const chunks = await this.vectorStore.getFileChunks(
+        existing.fileId,
+        existing.chunkCount,
+        existing.namespace || DEFAULT_NAMESPACE
+      );
+      await this.lexicalIndex.setFileChunks(existing.fileId, chunks);
+    }
+
+    if (
+      existing.modifiedTime === file.modifiedTime &&
+      existing.fileName === file.name &&
+      existing.folderPath === file.folderPath
+    ) {
+      return;
+    }
+
+    if (existing.fileName !== file.name || existing.folderPath !== file.folderPath) {
+      await this.vectorStore.updateFileMetadata(file.id, existing.chunkCount, existing.namespace || DEFAULT_NAMESPACE, {
+        fileName: file.name,
+        folderPath: file.folderPath,
+      });
+      await this.lexicalIndex.updateFileMetadata(file.id, {
+        fileName: file.name,
+        folderPath: file.folderPath,
+      });
+    }
+
+    await this.indexState.set({
+      ...existing,
+      fileName: file.name,
+      folderPath: file.folderPath,
+      webViewLink: file.webViewLink,
+      modifiedTime: file.modifiedTime,
+    });
+  }
+
   async searchKnowledge(
     query: string,
     maxResults: number = 5,
-    minScore: number = 0.7
+    minScore: number = 0.7,
+    options: KnowledgeSearchOptions = {}
   ): Promise<{
     results: Array<{
       content: string;
+      chunkId: string;
       fileName: string;
       fileId: string;
       score: number;
       webViewLink?: string;
+      folderPath?: string;
+      headingPath?: string[];
+      matchType: 'semantic' | 'keyword' | 'both';
+      exactMatches: string[];
     }>;
     summary: string;
   }> {
     try {
-      await this.initializePinecone();
+      await this.initializeVectorStore();
       
-      const searchResults = await this.pinecone.searchSimilarChunks(query, maxResults, minScore);
+      const searchResults = await this.searchChunks(query, maxResults, minScore, options);
       
       if (searchResults.length === 0) {
         return {
@@ -140,10 +703,15 @@ export class DocumentProcessor {
       // Group results by file and deduplicate
       const fileMap = new Map<string, {
         content: string;
+        chunkId: string;
         fileName: string;
         fileId: string;
         score: number;
         webViewLink?: string;
+        folderPath?: string;
+        headingPath?: string[];
+        matchType: 'semantic' | 'keyword' | 'both';
+        exactMatches: string[];
         chunks: number;
       }>();
 
@@ -153,10 +721,15 @@ export class DocumentProcessor {
         if (!existingFile || result.score > existingFile.score) {
           fileMap.set(result.metadata.fileId, {
             content: result.content,
+            chunkId: result.id,
             fileName: result.metadata.fileName,
             fileId: result.metadata.fileId,
             score: result.score,
             webViewLink: result.metadata.webViewLink,
+            folderPath: result.metadata.folderPath,
+            headingPath: result.metadata.headingPath,
+            matchType: result.matchType,
+            exactMatches: result.exactMatches,
             chunks: (existingFile?.chunks || 0) + 1,
           });
         }
@@ -178,37 +751,131 @@ export class DocumentProcessor {
     }
   }
 
+  /**
+   * Rank chunks by vector similarity, BM25 keyword score or both. Hybrid
+   * mode fuses the two rankings (plus a ranking of verbatim matches for any
+   * exact terms) with reciprocal rank fusion and scales scores so the best
+   * chunk is 1.
+   */
+  private async searchChunks(
+    query: string,
+    maxResults: number,
+    minScore: number,
+    options: KnowledgeSearchOptions
+  ): Promise<Array<SearchResult & { matchType: 'semantic' | 'keyword' | 'both'; exactMatches: string[] }>> {
+    const mode = options.mode || (process.env.KNOWLEDGE_SEARCH_MODE as KnowledgeSearchMode) || 'hybrid';
+    const exactTerms = (options.exactTerms || []).map(term => term.trim()).filter(Boolean);
+    // Several chunks can come from one file, so over-fetch before grouping
+    const candidateCount = Math.max(maxResults * 4, 20);
+
+    const [vectorResults, keywordResults] = await Promise.all([
+      mode === 'keyword'
+        ? []
+        : this.vectorStore.query(query, {
+            topK: candidateCount,
+            minScore: mode === 'hybrid' ? Math.min(minScore, HYBRID_MIN_VECTOR_SCORE) : minScore,
+            namespaces: options.namespaces,
+          }),
+      mode === 'vector'
+        ? []
+        : this.lexicalIndex.search([query, ...exactTerms].join(' '), candidateCount, options.namespaces),
+    ]);
+
+    const chunksById = new Map<string, SearchResult>();
+    for (const result of [...keywordResults, ...vectorResults]) {
+      chunksById.set(result.id, result);
+    }
+
+    const findExactMatches = (content: string) =>
+      exactTerms.filter(term => content.toLowerCase().includes(term.toLowerCase()));
+
+    const exactRanking = Array.from(chunksById.values())
+      .map(result => ({ id: result.id, matches: findExactMatches(result.content).length }))
+      .filter(({ matches }) => matches > 0)
+      .sort((a, b) => b.matches - a.matches)
+      .map(({ id }) => id);
+
+    const vectorIds = new Set(vectorResults.map(result => result.id));
+    const keywordIds = new Set(keywordResults.map(result => result.id));
+
+    const fused = mode === 'vector' && exactRanking.length === 0
+      ? new Map<string, number>(vectorResults.map((result): [string, number] => [result.id, result.score]))
+      : reciprocalRankFusion(
+          [vectorResults.map(result => result.id), keywordResults.map(result => result.id), exactRanking],
+          // Verbatim identifier matches count double
+          [1, 1, 2]
+        );
+    const bestScore = Math.max(...fused.values(), 0) || 1;
+
+    return Array.from(fused.entries())
+      .sort(([, a], [, b]) => b - a)
+      .flatMap(([id, score]) => {
+        // Every fused ID comes from one of the result lists
+        const result = chunksById.get(id);
+        if (!result) return [];
+        return [{
+          ...result,
+          score: mode === 'vector' && exactRanking.length === 0 ? score : score / bestScore,
+          matchType: vectorIds.has(id) && keywordIds.has(id) ? 'both' as const : vectorIds.has(id) ? 'semantic' as const : 'keyword' as const,
+          exactMatches: findExactMatches(result.content),
+        }];
+      });
+  }
+
   async getIndexStats(): Promise<{
     vectorCount: number;
     dimension: number;
     indexFullness: number;
   }> {
     try {
-      await this.initializePinecone();
-      
-      const stats = await this.pinecone.getIndexStats();
+      // Stats don't depend on the embedding model, so skip that check
+      await this.vectorStore.initialize();
       
-      return {
-        vectorCount: stats.totalVectorCount || 0,
-        dimension: stats.dimension || 0,
-        indexFullness: stats.indexFullness || 0,
-      };
+      return await this.vectorStore.stats();
     } catch (error) {
       console.error('Failed to get index stats:', error);
       throw error;
     }
   }
 
-  async refreshKnowledge(folderId?: string): Promise<DocumentProcessingResult> {
-    console.info('Refreshing knowledge base...');
-    
+  /**
+   * Sync the index with Drive. Only new or changed files are re-embedded;
+   * pass fullReindex to wipe the index and rebuild it from scratch. The
+   * index is also rebuilt when it was built with another embedding model.
+   * A rebuild always covers every folder and channel, since the wipe does,
+   * so folderId only narrows incremental syncs.
+   */
+  async refreshKnowledge(folderId?: string | string[], options: { fullReindex?: boolean } = {}): Promise<DocumentProcessingResult> {
     try {
-      // Clear existing index
-      await this.initializePinecone();
-      await this.pinecone.clearIndex();
+      const indexedModel = options.fullReindex ? undefined : await this.findEmbeddingModelMismatch();
+      const fullReindex = options.fullReindex || indexedModel !== undefined;
+      if (indexedModel !== undefined) {
+        app.logger.warn(`Knowledge index was built with ${indexedModel ?? 'an unrecorded embedding model'}, not ${getEmbeddingModelId(this.embeddings)}; rebuilding it`);
+      }
+      app.logger.info(`Refreshing knowledge base (${fullReindex ? 'full reindex' : 'incremental'})...`);
+
+      if (fullReindex) {
+        await this.vectorStore.initialize();
+        await this.vectorStore.clear();
+        await this.lexicalIndex.clear();
+        await this.indexState.clear();
+        await this.indexState.setEmbeddingModel(getEmbeddingModelId(this.embeddings));
+        this.embeddingModelChecked = true;
+      }
       
-      // Re-process documents
-      return await this.processGoogleDriveFolder(folderId);
+      if (folderId && !fullReindex) {
+        return await this.processGoogleDriveFolder(folderId);
+      }
+
+      // Slack-only setups have no Drive folders; with neither configured,
+      // the Drive pass reports what to set
+      const results: DocumentProcessingResult[] = [];
+      if (getNamespaceFolders().length > 0 || getNamespaceChannels().length === 0) {
+        results.push(await this.processGoogleDriveFolder());
+      }
+      results.push(await this.processSlackChannels());
+
+      return mergeProcessingResults(...results);
     } catch (error) {
       console.error('Failed to refresh knowledge base:', error);
       throw error;
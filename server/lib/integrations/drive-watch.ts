@@ -0,0 +1,149 @@
+import { randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { app } from "~/app";
+import { GoogleDriveClient } from "./google-drive";
+
+export interface DriveWatch {
+  channelId: string;
+  resourceId: string;
+  // Secret Drive echoes back in X-Goog-Channel-Token
+  token: string;
+  address: string;
+  // Epoch milliseconds
+  expiration: number;
+  // changes.list position the next sync resumes from
+  pageToken: string;
+  createdAt: string;
+}
+
+// Drive caps changes.watch channels at one week
+const WATCH_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Renew well before expiry so a missed scheduled run doesn't drop notifications
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The active Drive push notification channel and the pending-sync flag set
+ * by the notification route.
+ */
+export class DriveWatchStore {
+  private readonly storage = useStorage("agent:drive-watch");
+
+  async get(): Promise<DriveWatch | null> {
+    return this.storage.getItem<DriveWatch>("current");
+  }
+
+  async set(watch: DriveWatch): Promise<void> {
+    await this.storage.setItem("current", watch);
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.removeItem("current");
+  }
+
+  async setPageToken(pageToken: string): Promise<void> {
+    // Re-read so a renewal that ran during the sync isn't overwritten
+    const current = await this.get();
+    if (current) {
+      await this.set({ ...current, pageToken });
+    }
+  }
+
+  async markPending(): Promise<void> {
+    await this.storage.setItem("pending", new Date().toISOString());
+  }
+
+  /**
+   * Clear the pending flag, returning whether it was set.
+   */
+  async takePending(): Promise<boolean> {
+    const pending = await this.storage.hasItem("pending");
+    if (pending) {
+      await this.storage.removeItem("pending");
+    }
+    return pending;
+  }
+
+  /**
+   * Check notification headers against the active channel. Tokens are
+   * compared in constant time.
+   */
+  async verify(channelId?: string, token?: string): Promise<boolean> {
+    const current = await this.get();
+    if (!current || !channelId || !token || channelId !== current.channelId) {
+      return false;
+    }
+
+    const expected = Buffer.from(current.token);
+    const provided = Buffer.from(token);
+    return (
+      expected.length === provided.length && timingSafeEqual(expected, provided)
+    );
+  }
+}
+
+export type DriveWatchRenewal =
+  | { status: "disabled" }
+  | { status: "active" | "created" | "renewed"; expiration: number };
+
+/**
+ * Make sure a changes.watch channel is pointed at GOOGLE_DRIVE_WEBHOOK_URL
+ * and has at least a day left, creating or replacing it otherwise. A
+ * replacement keeps the stored page token so no changes are skipped, and
+ * the old channel is stopped afterwards.
+ */
+export const ensureDriveWatch = async (
+  options: { force?: boolean } = {},
+): Promise<DriveWatchRenewal> => {
+  const address = process.env.GOOGLE_DRIVE_WEBHOOK_URL;
+  if (!address) {
+    return { status: "disabled" };
+  }
+
+  const store = new DriveWatchStore();
+  const current = await store.get();
+
+  if (
+    !options.force &&
+    current &&
+    current.address === address &&
+    current.expiration - Date.now() > RENEW_BEFORE_MS
+  ) {
+    return { status: "active", expiration: current.expiration };
+  }
+
+  const drive = new GoogleDriveClient();
+  const pageToken = current?.pageToken || (await drive.getStartPageToken());
+  const channelId = randomUUID();
+  const token = randomBytes(32).toString("hex");
+
+  const { resourceId, expiration } = await drive.watchChanges({
+    pageToken,
+    channelId,
+    token,
+    address,
+    expiration: Date.now() + WATCH_TTL_MS,
+  });
+
+  await store.set({
+    channelId,
+    resourceId,
+    token,
+    address,
+    expiration,
+    pageToken,
+    createdAt: new Date().toISOString(),
+  });
+
+  if (current) {
+    try {
+      await drive.stopChannel(current.channelId, current.resourceId);
+    } catch (error) {
+      // Expired channels can't be stopped; nothing else to clean up
+      app.logger.warn(
+        `Failed to stop Drive watch channel ${current.channelId}:`,
+        error,
+      );
+    }
+  }
+
+  return { status: current ? "renewed" : "created", expiration };
+};
@@ -0,0 +1,312 @@
+import { createHash } from "node:crypto";
+import { app } from "~/app";
+import type { EmbeddingProvider } from "./vector-store";
+
+// Output sizes of the OpenAI embedding models we support
+const OPENAI_MODEL_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
+
+// OpenAI accepts up to 2048 inputs per request; smaller batches keep each
+// request well under the per-request token limit
+const OPENAI_BATCH_SIZE = 96;
+const OPENAI_CONCURRENCY = 2;
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+export class EmbeddingRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "EmbeddingRequestError";
+  }
+
+  // Rate limits, server errors and network failures (no status) are transient
+  get retryable(): boolean {
+    return (
+      this.status === undefined || this.status === 429 || this.status >= 500
+    );
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Retry transient failures with exponential backoff and jitter, waiting at
+ * least as long as the server's Retry-After.
+ */
+const withRetry = async <T>(
+  operation: () => Promise<T>,
+  label: string,
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const retryable =
+        !(error instanceof EmbeddingRequestError) || error.retryable;
+      if (!retryable || attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+
+      const backoff = Math.min(
+        BASE_DELAY_MS * 2 ** (attempt - 1),
+        MAX_DELAY_MS,
+      );
+      const delay = Math.max(
+        backoff / 2 + Math.random() * (backoff / 2),
+        error instanceof EmbeddingRequestError ? error.retryAfterMs || 0 : 0,
+      );
+      app.logger.warn(
+        `${label} failed (attempt ${attempt}/${MAX_ATTEMPTS}), retrying in ${Math.round(delay)}ms:`,
+        error instanceof Error ? error.message : error,
+      );
+      await sleep(delay);
+    }
+  }
+};
+
+/**
+ * Run tasks with at most `limit` in flight, keeping results in input order.
+ */
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+};
+
+const parseRetryAfter = (response: Response): number | undefined => {
+  const header =
+    response.headers.get("retry-after-ms") ||
+    response.headers.get("retry-after");
+  if (!header) return undefined;
+
+  const ms = response.headers.has("retry-after-ms")
+    ? Number(header)
+    : Number(header) * 1000;
+  return Number.isFinite(ms) ? ms : undefined;
+};
+
+/**
+ * OpenAI embeddings API. Inputs are sent in batches with a small number of
+ * requests in flight; rate limits and server errors are retried with
+ * backoff. If the API rejects a batch as invalid, its inputs are retried
+ * one by one so a single bad chunk is reported on its own.
+ *
+ * OPENAI_EMBEDDING_MODEL selects the model (text-embedding-3-small by
+ * default). OPENAI_EMBEDDING_DIMENSIONS shortens text-embedding-3 vectors,
+ * e.g. to fit an existing index.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai";
+  readonly model: string;
+  readonly dimension: number;
+  // Only sent when shortening text-embedding-3 vectors
+  private readonly requestedDimensions?: number;
+
+  constructor() {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error(
+        "OPENAI_API_KEY environment variable is required for OpenAI embeddings",
+      );
+    }
+
+    this.model = process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small";
+
+    const defaultDimension = OPENAI_MODEL_DIMENSIONS[this.model];
+    const configuredDimension =
+      Number(process.env.OPENAI_EMBEDDING_DIMENSIONS) || undefined;
+    if (!defaultDimension && !configuredDimension) {
+      throw new Error(
+        `Unknown dimension for embedding model "${this.model}". Set OPENAI_EMBEDDING_DIMENSIONS.`,
+      );
+    }
+    if (
+      configuredDimension &&
+      configuredDimension !== defaultDimension &&
+      !this.model.startsWith("text-embedding-3")
+    ) {
+      throw new Error(
+        `Embedding model "${this.model}" does not support OPENAI_EMBEDDING_DIMENSIONS`,
+      );
+    }
+
+    this.dimension = configuredDimension || defaultDimension;
+    this.requestedDimensions =
+      configuredDimension && configuredDimension !== defaultDimension
+        ? configuredDimension
+        : undefined;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const batches: string[][] = [];
+    for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+      batches.push(texts.slice(i, i + OPENAI_BATCH_SIZE));
+    }
+
+    const results = await mapWithConcurrency(
+      batches,
+      OPENAI_CONCURRENCY,
+      (batch) => this.embedBatch(batch),
+    );
+    return results.flat();
+  }
+
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    try {
+      return await withRetry(
+        () => this.request(texts),
+        `Embedding batch of ${texts.length}`,
+      );
+    } catch (error) {
+      // Splitting only helps when one input made the request invalid;
+      // exhausted rate limits would just multiply the requests
+      const invalidInput =
+        error instanceof EmbeddingRequestError && !error.retryable;
+      if (texts.length === 1 || !invalidInput) {
+        throw error;
+      }
+
+      app.logger.warn(
+        `Embedding batch of ${texts.length} failed, retrying inputs individually`,
+      );
+      const vectors: number[][] = [];
+      const failures: number[] = [];
+      for (const [index, text] of texts.entries()) {
+        try {
+          vectors.push(...(await this.embedBatch([text])));
+        } catch (chunkError) {
+          failures.push(index);
+          app.logger.error(
+            `Failed to embed input ${index} of batch:`,
+            chunkError,
+          );
+        }
+      }
+
+      if (failures.length > 0) {
+        throw new Error(
+          `Embedding generation failed for ${failures.length} of ${texts.length} inputs: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+      return vectors;
+    }
+  }
+
+  private async request(texts: string[]): Promise<number[][]> {
+    let response: Response;
+    try {
+      response = await fetch("https://api.openai.com/v1/embeddings", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          input: texts.map((text) => text.replace(/\n/g, " ").trim() || " "),
+          model: this.model,
+          ...(this.requestedDimensions
+            ? { dimensions: this.requestedDimensions }
+            : {}),
+        }),
+      });
+    } catch (error) {
+      throw new EmbeddingRequestError(
+        `OpenAI API request failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new EmbeddingRequestError(
+        `OpenAI API error: ${response.status} ${response.statusText}${detail ? ` ${detail.slice(0, 200)}` : ""}`,
+        response.status,
+        parseRetryAfter(response),
+      );
+    }
+
+    const data = await response.json();
+    // Results carry their input index; don't rely on response order
+    return (data.data as Array<{ index: number; embedding: number[] }>)
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
+
+/**
+ * Offline embeddings for development and CI. Words and word pairs are hashed
+ * into a fixed number of buckets, so texts that share vocabulary land close
+ * together. Not semantic, but deterministic and free.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local";
+  readonly model = "hash";
+
+  constructor(readonly dimension: number = 512) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+    const features = [
+      ...words,
+      ...words.slice(1).map((word, index) => `${words[index]} ${word}`),
+    ];
+
+    for (const feature of features) {
+      const hash = createHash("md5").update(feature).digest();
+      const bucket = hash.readUInt32LE(0) % this.dimension;
+      // A second hash bit picks the sign so collisions tend to cancel out
+      vector[bucket] += hash[4] & 1 ? 1 : -1;
+    }
+
+    const norm =
+      Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map((value) => value / norm);
+  }
+}
+
+/**
+ * EMBEDDING_PROVIDER selects the provider; by default OpenAI is used when
+ * OPENAI_API_KEY is set and local hashing otherwise.
+ */
+export const createEmbeddingProvider = (): EmbeddingProvider => {
+  const provider =
+    process.env.EMBEDDING_PROVIDER ||
+    (process.env.OPENAI_API_KEY ? "openai" : "local");
+
+  switch (provider) {
+    case "openai":
+      return new OpenAIEmbeddingProvider();
+    case "local":
+      return new LocalHashEmbeddingProvider();
+    default:
+      throw new Error(
+        `Unknown EMBEDDING_PROVIDER "${provider}". Use "openai" or "local".`,
+      );
+  }
+};
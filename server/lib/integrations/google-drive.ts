@@ -1,5 +1,17 @@
 import { google } from 'googleapis';
-import { OAuth2Client } from 'google-auth-library';
+import type { OAuth2Client } from 'google-auth-library';
+import {
+  csvToMarkdown,
+  DOCX_MIME_TYPE,
+  extractDocxText,
+  extractPdfText,
+  GOOGLE_DOC_MIME_TYPE,
+  GOOGLE_EXPORT_MIME_TYPES,
+  GOOGLE_SHEET_MIME_TYPE,
+  GOOGLE_SLIDES_MIME_TYPE,
+  PDF_MIME_TYPE,
+} from './document-extractors';
+import { type ChunkingOptions, chunkDocument, getChunkingOptions } from './document-chunker';
 
 export interface GoogleDriveFile {
   id: string;
@@ -8,6 +20,9 @@ export interface GoogleDriveFile {
   modifiedTime: string;
   size?: string;
   webViewLink?: string;
+  folderPath?: string;
+  // Knowledge namespace of the root folder the file was listed under
+  namespace?: string;
 }
 
 export interface ProcessedDocument {
@@ -18,6 +33,24 @@ export interface ProcessedDocument {
   mimeType: string;
   modifiedTime: string;
   webViewLink?: string;
+  folderPath?: string;
+  namespace?: string;
+}
+
+export interface DriveChange {
+  fileId: string;
+  // The file was deleted or the service account lost access
+  removed: boolean;
+  file?: {
+    id: string;
+    name: string;
+    mimeType: string;
+    modifiedTime: string;
+    size?: string;
+    webViewLink?: string;
+    parents?: string[];
+    trashed?: boolean;
+  };
 }
 
 export interface DocumentChunk {
@@ -30,9 +63,36 @@ export interface DocumentChunk {
     startChar: number;
     endChar: number;
     webViewLink?: string;
+    folderPath?: string;
+    // Unset for chunks indexed before namespaces existed, which belong to
+    // the default namespace
+    namespace?: string;
+    // Headings the chunk sits under, outermost first
+    headingPath?: string[];
   };
 }
 
+export const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+export const SUPPORTED_MIME_TYPES = [
+  PDF_MIME_TYPE,
+  GOOGLE_DOC_MIME_TYPE,
+  GOOGLE_SHEET_MIME_TYPE,
+  GOOGLE_SLIDES_MIME_TYPE,
+  'text/plain',
+  'text/markdown',
+  DOCX_MIME_TYPE,
+];
+
+/**
+ * Root folders to index, from a comma-separated GOOGLE_DRIVE_FOLDER_ID.
+ */
+export const getConfiguredFolderIds = (): string[] =>
+  (process.env.GOOGLE_DRIVE_FOLDER_ID || '')
+    .split(',')
+    .map((folderId) => folderId.trim())
+    .filter(Boolean);
+
 export class GoogleDriveClient {
   private auth: OAuth2Client | undefined;
   private drive: any;
@@ -57,38 +117,74 @@ export class GoogleDriveClient {
     }
   }
 
-  async listFilesInFolder(folderId: string): Promise<GoogleDriveFile[]> {
+  /**
+   * List every supported file under a folder, including nested folders and
+   * folders in shared drives. Each file carries its folder path relative to
+   * the root folder's parent, e.g. "Sales/Pricing Guides".
+   */
+  async listFilesInFolder(folderId: string, options: { recursive?: boolean } = {}): Promise<GoogleDriveFile[]> {
     if (!this.drive) {
       throw new Error('Google Drive not authenticated. Please configure service account credentials.');
     }
 
+    const recursive = options.recursive ?? true;
+
     try {
-      const response = await this.drive.files.list({
-        q: `'${folderId}' in parents and trashed = false`,
-        fields: 'files(id, name, mimeType, modifiedTime, size, webViewLink)',
-        orderBy: 'modifiedTime desc',
+      const root = await this.drive.files.get({
+        fileId: folderId,
+        fields: 'id, name',
+        supportsAllDrives: true,
       });
 
-      const files = response.data.files || [];
-      
-      // Filter for supported file types
-      const supportedTypes = [
-        'application/pdf',
-        'application/vnd.google-apps.document',
-        'text/plain',
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      ];
-
-      return files.filter((file: any) => 
-        supportedTypes.includes(file.mimeType)
-      ).map((file: any) => ({
-        id: file.id,
-        name: file.name,
-        mimeType: file.mimeType,
-        modifiedTime: file.modifiedTime,
-        size: file.size,
-        webViewLink: file.webViewLink,
-      }));
+      const files: GoogleDriveFile[] = [];
+      const visited = new Set<string>();
+      const queue = [{ id: folderId, path: root.data.name || folderId }];
+
+      // Subfolders are appended as they're found; for...of picks them up
+      for (const folder of queue) {
+        // Drive allows a folder to have several parents, so guard against loops
+        if (visited.has(folder.id)) continue;
+        visited.add(folder.id);
+
+        let pageToken: string | undefined;
+        do {
+          const response = await this.drive.files.list({
+            q: `'${folder.id}' in parents and trashed = false`,
+            fields: 'nextPageToken, files(id, name, mimeType, modifiedTime, size, webViewLink)',
+            orderBy: 'modifiedTime desc',
+            pageSize: 1000,
+            pageToken,
+            supportsAllDrives: true,
+            includeItemsFromAllDrives: true,
+          });
+
+          for (const file of response.data.files || []) {
+            if (file.mimeType === FOLDER_MIME_TYPE) {
+              if (recursive) {
+                queue.push({ id: file.id, path: `${folder.path}/${file.name}` });
+              }
+              continue;
+            }
+
+            if (!SUPPORTED_MIME_TYPES.includes(file.mimeType)) continue;
+
+            files.push({
+              id: file.id,
+              name: file.name,
+              mimeType: file.mimeType,
+              modifiedTime: file.modifiedTime,
+              size: file.size,
+              webViewLink: file.webViewLink,
+              folderPath: folder.path,
+            });
+          }
+
+          pageToken = response.data.nextPageToken || undefined;
+        } while (pageToken);
+      }
+
+      console.info(`Listed ${files.length} files in ${visited.size} folders under ${root.data.name || folderId}`);
+      return files;
 
     } catch (error) {
       console.error('Failed to list Google Drive files:', error);
@@ -96,6 +192,165 @@ export class GoogleDriveClient {
     }
   }
 
+  /**
+   * Find which of the given root folders contain a file, walking up from
+   * its parents. Returns each reachable root with the file's folder path,
+   * in the same form as listFilesInFolder. Folder lookups are cached on the
+   * passed map so one sync walks each folder once.
+   */
+  async findRootFolders(
+    parents: string[],
+    rootIds: string[],
+    folderCache: Map<string, { name: string; parents: string[] }> = new Map()
+  ): Promise<Map<string, string>> {
+    if (!this.drive) {
+      throw new Error('Google Drive not authenticated');
+    }
+
+    const roots = new Set(rootIds);
+    const found = new Map<string, string>();
+    const visited = new Set<string>();
+
+    const getFolder = async (folderId: string) => {
+      let folder = folderCache.get(folderId);
+      if (!folder) {
+        try {
+          const response = await this.drive.files.get({
+            fileId: folderId,
+            fields: 'id, name, parents',
+            supportsAllDrives: true,
+          });
+          folder = { name: response.data.name || folderId, parents: response.data.parents || [] };
+        } catch {
+          // Parents outside the service account's access end the walk
+          folder = { name: folderId, parents: [] };
+        }
+        folderCache.set(folderId, folder);
+      }
+      return folder;
+    };
+
+    // Depth-first up each parent chain; `path` holds folder names below the current folder
+    const walk = async (folderId: string, path: string[]): Promise<void> => {
+      if (visited.has(folderId)) return;
+      visited.add(folderId);
+
+      const folder = await getFolder(folderId);
+      const folderPath = [folder.name, ...path];
+
+      if (roots.has(folderId) && !found.has(folderId)) {
+        found.set(folderId, folderPath.join('/'));
+      }
+
+      for (const parentId of folder.parents) {
+        await walk(parentId, folderPath);
+      }
+    };
+
+    for (const parentId of parents) {
+      await walk(parentId, []);
+    }
+
+    return found;
+  }
+
+  async getFile(fileId: string): Promise<NonNullable<DriveChange['file']>> {
+    if (!this.drive) {
+      throw new Error('Google Drive not authenticated');
+    }
+
+    const response = await this.drive.files.get({
+      fileId,
+      fields: 'id, name, mimeType, modifiedTime, size, webViewLink, parents, trashed',
+      supportsAllDrives: true,
+    });
+    return response.data;
+  }
+
+  async getStartPageToken(): Promise<string> {
+    if (!this.drive) {
+      throw new Error('Google Drive not authenticated');
+    }
+
+    const response = await this.drive.changes.getStartPageToken({ supportsAllDrives: true });
+    return response.data.startPageToken;
+  }
+
+  /**
+   * Every change visible to the service account since `pageToken`, across
+   * My Drive and shared drives, plus the token to resume from next time.
+   */
+  async listChanges(pageToken: string): Promise<{ changes: DriveChange[]; newStartPageToken: string }> {
+    if (!this.drive) {
+      throw new Error('Google Drive not authenticated');
+    }
+
+    const changes: DriveChange[] = [];
+    let token = pageToken;
+
+    while (true) {
+      const response = await this.drive.changes.list({
+        pageToken: token,
+        fields: 'nextPageToken, newStartPageToken, changes(fileId, removed, file(id, name, mimeType, modifiedTime, size, webViewLink, parents, trashed))',
+        pageSize: 1000,
+        supportsAllDrives: true,
+        includeItemsFromAllDrives: true,
+      });
+
+      for (const change of response.data.changes || []) {
+        changes.push({ fileId: change.fileId, removed: Boolean(change.removed), file: change.file || undefined });
+      }
+
+      if (response.data.newStartPageToken) {
+        return { changes, newStartPageToken: response.data.newStartPageToken };
+      }
+      token = response.data.nextPageToken;
+    }
+  }
+
+  /**
+   * Subscribe a webhook to Drive changes (changes.watch). Drive posts to
+   * `address` with the channel ID and token in X-Goog-Channel-* headers.
+   */
+  async watchChanges(options: {
+    pageToken: string;
+    channelId: string;
+    token: string;
+    address: string;
+    expiration: number;
+  }): Promise<{ resourceId: string; expiration: number }> {
+    if (!this.drive) {
+      throw new Error('Google Drive not authenticated');
+    }
+
+    const response = await this.drive.changes.watch({
+      pageToken: options.pageToken,
+      supportsAllDrives: true,
+      includeItemsFromAllDrives: true,
+      requestBody: {
+        id: options.channelId,
+        type: 'web_hook',
+        address: options.address,
+        token: options.token,
+        expiration: String(options.expiration),
+      },
+    });
+
+    return {
+      resourceId: response.data.resourceId,
+      // Drive may shorten the requested lifetime
+      expiration: Number(response.data.expiration) || options.expiration,
+    };
+  }
+
+  async stopChannel(channelId: string, resourceId: string): Promise<void> {
+    if (!this.drive) {
+      throw new Error('Google Drive not authenticated');
+    }
+
+    await this.drive.channels.stop({ requestBody: { id: channelId, resourceId } });
+  }
+
   async downloadFile(fileId: string, mimeType: string): Promise<Buffer> {
     if (!this.drive) {
       throw new Error('Google Drive not authenticated');
@@ -103,19 +358,22 @@ export class GoogleDriveClient {
 
     try {
       let response;
+      const exportMimeType = GOOGLE_EXPORT_MIME_TYPES[mimeType];
       
-      if (mimeType === 'application/vnd.google-apps.document') {
-        // Export Google Docs as plain text
+      if (exportMimeType) {
+        // Google Workspace files have no binary content and must be exported
         response = await this.drive.files.export({
           fileId: fileId,
-          mimeType: 'text/plain',
-        });
+          mimeType: exportMimeType,
+        }, { responseType: 'arraybuffer' });
       } else {
-        // Download other file types directly
+        // Download other file types directly; binary formats are corrupted
+        // unless the body is read as an ArrayBuffer
         response = await this.drive.files.get({
           fileId: fileId,
           alt: 'media',
-        });
+          supportsAllDrives: true,
+        }, { responseType: 'arraybuffer' });
       }
 
       return Buffer.from(response.data);
@@ -126,21 +384,28 @@ export class GoogleDriveClient {
   }
 
   async extractTextContent(buffer: Buffer, mimeType: string, fileName: string): Promise<string> {
+    let content: string;
+
     try {
       switch (mimeType) {
-        case 'application/pdf':
-          // PDF parsing temporarily disabled in serverless environment
-          throw new Error('PDF processing is temporarily unavailable in production. Please use Google Docs or text files instead.');
-          
+        case PDF_MIME_TYPE:
+          content = await extractPdfText(buffer);
+          break;
+
+        case DOCX_MIME_TYPE:
+          content = await extractDocxText(buffer);
+          break;
+
+        case GOOGLE_SHEET_MIME_TYPE:
+          content = csvToMarkdown(buffer.toString('utf-8'));
+          break;
+
         case 'text/plain':
-        case 'application/vnd.google-apps.document':
-          return buffer.toString('utf-8');
-          
-        case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-          // For DOCX files, you'd need additional libraries like mammoth
-          // For now, we'll just return a placeholder
-          console.warn(`DOCX processing not implemented for ${fileName}. Install mammoth package for full support.`);
-          return `[DOCX Document: ${fileName} - Content extraction not yet implemented]`;
+        case 'text/markdown':
+        case GOOGLE_DOC_MIME_TYPE:
+        case GOOGLE_SLIDES_MIME_TYPE:
+          content = buffer.toString('utf-8');
+          break;
           
         default:
           throw new Error(`Unsupported file type: ${mimeType}`);
@@ -149,58 +414,48 @@ export class GoogleDriveClient {
       console.error(`Failed to extract text from ${fileName}:`, error);
       throw new Error(`Failed to extract text: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  }
 
-  createDocumentChunks(content: string, fileId: string, fileName: string, webViewLink?: string, chunkSize: number = 1000, overlap: number = 200): DocumentChunk[] {
-    const chunks: DocumentChunk[] = [];
-    const contentLength = content.length;
-    
-    if (contentLength <= chunkSize) {
-      // If content is small enough, create single chunk
-      chunks.push({
-        id: `${fileId}_0`,
-        content: content.trim(),
-        metadata: {
-          fileId,
-          fileName,
-          chunkIndex: 0,
-          startChar: 0,
-          endChar: contentLength,
-          webViewLink,
-        },
-      });
-    } else {
-      // Split into overlapping chunks
-      let startChar = 0;
-      let chunkIndex = 0;
-      
-      while (startChar < contentLength) {
-        const endChar = Math.min(startChar + chunkSize, contentLength);
-        const chunkContent = content.substring(startChar, endChar).trim();
-        
-        if (chunkContent.length > 0) {
-          chunks.push({
-            id: `${fileId}_${chunkIndex}`,
-            content: chunkContent,
-            metadata: {
-              fileId,
-              fileName,
-              chunkIndex,
-              startChar,
-              endChar,
-              webViewLink,
-            },
-          });
-          
-          chunkIndex++;
-        }
-        
-        // Move start position, accounting for overlap
-        startChar += chunkSize - overlap;
-      }
+    // Refuse to index an empty document rather than storing a useless chunk
+    if (!content.trim()) {
+      throw new Error(
+        mimeType === PDF_MIME_TYPE
+          ? 'No extractable text. The PDF may be scanned images; run OCR or upload a text version.'
+          : 'No extractable text found in document.'
+      );
     }
-    
-    return chunks;
+
+    return content;
+  }
+
+  /**
+   * Split extracted text into chunks along headings, paragraphs and table
+   * rows. Chunk sizes come from the file's MIME type unless overridden.
+   */
+  createDocumentChunks(
+    content: string,
+    fileId: string,
+    fileName: string,
+    source: { webViewLink?: string; folderPath?: string; namespace?: string; mimeType?: string } = {},
+    options: Partial<ChunkingOptions> = {}
+  ): DocumentChunk[] {
+    const { webViewLink, folderPath, namespace, mimeType } = source;
+
+    return chunkDocument(content, { ...getChunkingOptions(mimeType), ...options }).map((chunk, chunkIndex) => ({
+      id: `${fileId}_${chunkIndex}`,
+      content: chunk.content,
+      metadata: {
+        fileId,
+        fileName,
+        chunkIndex,
+        startChar: chunk.startChar,
+        endChar: chunk.endChar,
+        webViewLink,
+        folderPath,
+        namespace,
+        // Pinecone rejects empty lists in metadata
+        headingPath: chunk.headingPath.length > 0 ? chunk.headingPath : undefined,
+      },
+    }));
   }
 
   async processDocument(file: GoogleDriveFile): Promise<ProcessedDocument> {
@@ -218,7 +473,7 @@ export class GoogleDriveClient {
         content,
         file.id,
         file.name,
-        file.webViewLink
+        { webViewLink: file.webViewLink, folderPath: file.folderPath, namespace: file.namespace, mimeType: file.mimeType }
       );
       
       return {
@@ -229,6 +484,8 @@ export class GoogleDriveClient {
         mimeType: file.mimeType,
         modifiedTime: file.modifiedTime,
         webViewLink: file.webViewLink,
+        folderPath: file.folderPath,
+        namespace: file.namespace,
       };
       
     } catch (error) {
@@ -0,0 +1,135 @@
+import { createHash } from "node:crypto";
+
+export interface IndexedFileRecord {
+  fileId: string;
+  fileName: string;
+  folderPath?: string;
+  // Unset for files indexed before namespaces existed (default namespace)
+  namespace?: string;
+  webViewLink?: string;
+  modifiedTime: string;
+  contentHash: string;
+  chunkCount: number;
+  indexedAt: string;
+}
+
+export interface FailedFileRecord {
+  fileId: string;
+  fileName: string;
+  folderPath?: string;
+  webViewLink?: string;
+  modifiedTime: string;
+  error: string;
+  failedAt: string;
+}
+
+export interface ExcludedFileRecord {
+  fileId: string;
+  fileName: string;
+  excludedBy?: string;
+  excludedAt: string;
+}
+
+export const hashContent = (content: string): string =>
+  createHash("sha256").update(content).digest("hex");
+
+/**
+ * Registry of the Drive files behind the knowledge base: which files are in
+ * the vector index and at which revision (so a refresh only re-embeds files
+ * that actually changed), which failed to index, and which an admin
+ * excluded.
+ */
+export class KnowledgeIndexState {
+  private readonly storage = useStorage<IndexedFileRecord>(
+    "agent:knowledge-files",
+  );
+  private readonly failures = useStorage<FailedFileRecord>(
+    "agent:knowledge-failures",
+  );
+  private readonly exclusions = useStorage<ExcludedFileRecord>(
+    "agent:knowledge-exclusions",
+  );
+  private readonly settings = useStorage<string>("agent:knowledge-index");
+
+  async get(fileId: string): Promise<IndexedFileRecord | null> {
+    return this.storage.getItem(fileId);
+  }
+
+  async list(): Promise<IndexedFileRecord[]> {
+    const keys = await this.storage.getKeys();
+    const records = await Promise.all(
+      keys.map((key) => this.storage.getItem(key)),
+    );
+    return records.filter((record): record is IndexedFileRecord =>
+      Boolean(record),
+    );
+  }
+
+  async set(record: IndexedFileRecord): Promise<void> {
+    await this.storage.setItem(record.fileId, record);
+  }
+
+  async remove(fileId: string): Promise<void> {
+    await this.storage.removeItem(fileId);
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear();
+    await this.failures.clear();
+    await this.settings.clear();
+  }
+
+  // Embedding model the indexed vectors were built with, see
+  // getEmbeddingModelId()
+
+  async getEmbeddingModel(): Promise<string | null> {
+    return this.settings.getItem("embedding-model");
+  }
+
+  async setEmbeddingModel(model: string): Promise<void> {
+    await this.settings.setItem("embedding-model", model);
+  }
+
+  async listFailures(): Promise<FailedFileRecord[]> {
+    const keys = await this.failures.getKeys();
+    const records = await Promise.all(
+      keys.map((key) => this.failures.getItem(key)),
+    );
+    return records.filter((record): record is FailedFileRecord =>
+      Boolean(record),
+    );
+  }
+
+  async setFailure(record: FailedFileRecord): Promise<void> {
+    await this.failures.setItem(record.fileId, record);
+  }
+
+  async clearFailure(fileId: string): Promise<void> {
+    await this.failures.removeItem(fileId);
+  }
+
+  // Exclusions are admin decisions rather than index state, so clear()
+  // leaves them in place
+
+  async isExcluded(fileId: string): Promise<boolean> {
+    return this.exclusions.hasItem(fileId);
+  }
+
+  async listExclusions(): Promise<ExcludedFileRecord[]> {
+    const keys = await this.exclusions.getKeys();
+    const records = await Promise.all(
+      keys.map((key) => this.exclusions.getItem(key)),
+    );
+    return records.filter((record): record is ExcludedFileRecord =>
+      Boolean(record),
+    );
+  }
+
+  async exclude(record: ExcludedFileRecord): Promise<void> {
+    await this.exclusions.setItem(record.fileId, record);
+  }
+
+  async include(fileId: string): Promise<void> {
+    await this.exclusions.removeItem(fileId);
+  }
+}
@@ -0,0 +1,127 @@
+import { getConfiguredFolderIds } from "./google-drive";
+
+export const DEFAULT_NAMESPACE = "default";
+
+export interface NamespaceFolder {
+  namespace: string;
+  folderId: string;
+}
+
+export interface NamespaceChannel {
+  namespace: string;
+  channel: string;
+}
+
+const parseJsonEnv = <T>(name: string): T | undefined => {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    throw new Error(
+      `${name} must be valid JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+};
+
+const toList = (value: string | string[]): string[] =>
+  [value]
+    .flat()
+    .flatMap((item) => item.split(","))
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Root folders to index and the namespace each one is stored in.
+ * KNOWLEDGE_NAMESPACES maps namespaces to folder IDs, e.g.
+ * {"collateral":["1AbC..."],"internal":["1XyZ..."]}; folders in
+ * GOOGLE_DRIVE_FOLDER_ID that aren't mapped go to the default namespace.
+ *
+ * A file reachable from several roots is indexed once, under the first
+ * root listed, so list narrower namespaces first.
+ */
+export const getNamespaceFolders = (): NamespaceFolder[] => {
+  const mapping =
+    parseJsonEnv<Record<string, string | string[]>>("KNOWLEDGE_NAMESPACES") ||
+    {};
+
+  const folders: NamespaceFolder[] = [];
+  const seen = new Set<string>();
+  const add = (namespace: string, folderId: string) => {
+    if (seen.has(folderId)) return;
+    seen.add(folderId);
+    folders.push({ namespace, folderId });
+  };
+
+  for (const [namespace, folderIds] of Object.entries(mapping)) {
+    for (const folderId of toList(folderIds)) add(namespace, folderId);
+  }
+  for (const folderId of getConfiguredFolderIds())
+    add(DEFAULT_NAMESPACE, folderId);
+
+  return folders;
+};
+
+/**
+ * Slack channels whose canvases and pinned messages are indexed.
+ * KNOWLEDGE_SLACK_CHANNELS is either a comma-separated list of channel IDs
+ * (default namespace) or a JSON map of namespaces to channel IDs, like
+ * KNOWLEDGE_NAMESPACES.
+ */
+export const getNamespaceChannels = (): NamespaceChannel[] => {
+  const raw = process.env.KNOWLEDGE_SLACK_CHANNELS?.trim();
+  if (!raw) return [];
+
+  const mapping = raw.startsWith("{")
+    ? parseJsonEnv<Record<string, string | string[]>>(
+        "KNOWLEDGE_SLACK_CHANNELS",
+      ) || {}
+    : { [DEFAULT_NAMESPACE]: raw };
+
+  const channels: NamespaceChannel[] = [];
+  const seen = new Set<string>();
+  for (const [namespace, channelIds] of Object.entries(mapping)) {
+    for (const channel of toList(channelIds)) {
+      if (seen.has(channel)) continue;
+      seen.add(channel);
+      channels.push({ namespace, channel });
+    }
+  }
+
+  return channels;
+};
+
+export const getNamespaceForFolder = (folderId: string): string =>
+  getNamespaceFolders().find((folder) => folder.folderId === folderId)
+    ?.namespace || DEFAULT_NAMESPACE;
+
+/**
+ * Namespaces a Slack channel may search. KNOWLEDGE_CHANNEL_NAMESPACES maps
+ * channel IDs to namespaces, with two fallbacks: "external" for Slack
+ * Connect channels and DMs with people outside the workspace, "*" for every
+ * other channel. Unmapped internal channels search everything; unmapped
+ * external channels search nothing, so client conversations never reach
+ * internal documents by accident.
+ *
+ * Returns undefined when every namespace is allowed.
+ */
+export const getChannelNamespaces = (
+  channel: string | undefined,
+  { isExternal }: { isExternal: boolean },
+): string[] | undefined => {
+  const mapping =
+    parseJsonEnv<Record<string, string | string[]>>(
+      "KNOWLEDGE_CHANNEL_NAMESPACES",
+    ) || {};
+
+  const configured =
+    (channel && mapping[channel]) ||
+    (isExternal ? mapping.external : mapping["*"]);
+  if (configured === undefined) {
+    return isExternal ? [] : undefined;
+  }
+
+  const namespaces = toList(configured);
+  return namespaces.includes("*") ? undefined : namespaces;
+};
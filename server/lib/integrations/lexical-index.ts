@@ -0,0 +1,256 @@
+import type { DocumentChunk } from "./google-drive";
+import { DEFAULT_NAMESPACE } from "./knowledge-namespaces";
+import type { SearchResult } from "./vector-store";
+
+interface StoredFileChunks {
+  fileId: string;
+  chunks: Array<DocumentChunk & { indexedAt: string }>;
+}
+
+interface IndexedChunk {
+  chunk: DocumentChunk & { indexedAt: string };
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+interface BuiltIndex {
+  chunks: IndexedChunk[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+// BM25 parameters; the usual defaults work well for short chunks
+const K1 = 1.2;
+const B = 0.75;
+
+// Other instances may have re-indexed since we built the term statistics
+const BUILD_TTL_MS = 5 * 60 * 1000;
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "how",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "our",
+  "that",
+  "the",
+  "to",
+  "was",
+  "we",
+  "what",
+  "when",
+  "where",
+  "which",
+  "with",
+  "you",
+  "your",
+]);
+
+/**
+ * Lowercase word tokens. Identifiers such as "TB-1450" or "POL-12.3" are
+ * kept whole and also split into their parts, so both "TB-1450" and "1450"
+ * match.
+ */
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const [token] of text
+    .toLowerCase()
+    .matchAll(/[a-z0-9]+(?:[-_./][a-z0-9]+)*/g)) {
+    if (!STOP_WORDS.has(token)) tokens.push(token);
+
+    const parts = token.split(/[-_./]/);
+    if (parts.length > 1) {
+      tokens.push(...parts.filter((part) => part && !STOP_WORDS.has(part)));
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Combine ranked lists with reciprocal rank fusion. Rank positions are used
+ * instead of raw scores because cosine similarity and BM25 aren't on
+ * comparable scales.
+ */
+export const reciprocalRankFusion = (
+  rankings: string[][],
+  weights: number[] = [],
+  k: number = 60,
+): Map<string, number> => {
+  const scores = new Map<string, number>();
+  rankings.forEach((ranking, index) => {
+    const weight = weights[index] ?? 1;
+    ranking.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) || 0) + weight / (k + rank + 1));
+    });
+  });
+  return scores;
+};
+
+/**
+ * BM25 keyword index over the same chunks stored in the vector store. Chunk text is
+ * kept in Nitro storage per file and the term statistics are rebuilt lazily
+ * after any change.
+ */
+export class LexicalIndex {
+  private readonly storage = useStorage<StoredFileChunks>(
+    "agent:knowledge-chunks",
+  );
+  private built: BuiltIndex | undefined;
+  private builtAt = 0;
+
+  async hasFile(fileId: string): Promise<boolean> {
+    return this.storage.hasItem(fileId);
+  }
+
+  async setFileChunks(fileId: string, chunks: DocumentChunk[]): Promise<void> {
+    const indexedAt = new Date().toISOString();
+    await this.storage.setItem(fileId, {
+      fileId,
+      chunks: chunks.map((chunk) => ({ ...chunk, indexedAt })),
+    });
+    this.built = undefined;
+  }
+
+  async updateFileMetadata(
+    fileId: string,
+    metadata: Partial<DocumentChunk["metadata"]>,
+  ): Promise<void> {
+    const stored = await this.storage.getItem(fileId);
+    if (!stored) return;
+
+    await this.storage.setItem(fileId, {
+      ...stored,
+      chunks: stored.chunks.map((chunk) => ({
+        ...chunk,
+        metadata: { ...chunk.metadata, ...metadata },
+      })),
+    });
+    this.built = undefined;
+  }
+
+  async removeFile(fileId: string): Promise<void> {
+    await this.storage.removeItem(fileId);
+    this.built = undefined;
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear();
+    this.built = undefined;
+  }
+
+  /**
+   * Rank chunks by BM25. Term statistics cover every namespace; results are
+   * limited to `namespaces` when given.
+   */
+  async search(
+    query: string,
+    topK: number = 20,
+    namespaces?: string[],
+  ): Promise<SearchResult[]> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || namespaces?.length === 0) {
+      return [];
+    }
+
+    const index = await this.build();
+    const total = index.chunks.length;
+
+    const scored = index.chunks
+      .filter(
+        ({ chunk }) =>
+          !namespaces ||
+          namespaces.includes(chunk.metadata.namespace || DEFAULT_NAMESPACE),
+      )
+      .map((entry) => {
+        let score = 0;
+        for (const term of queryTerms) {
+          const frequency = entry.termFrequencies.get(term);
+          if (!frequency) continue;
+
+          const documentFrequency = index.documentFrequencies.get(term) || 0;
+          const idf = Math.log(
+            1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5),
+          );
+          score +=
+            (idf * frequency * (K1 + 1)) /
+            (frequency +
+              K1 * (1 - B + (B * entry.length) / (index.averageLength || 1)));
+        }
+        return { entry, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+
+    return scored.map(({ entry, score }) => ({
+      id: entry.chunk.id,
+      score,
+      content: entry.chunk.content,
+      metadata: {
+        ...entry.chunk.metadata,
+        content: entry.chunk.content,
+        indexedAt: entry.chunk.indexedAt,
+      },
+    }));
+  }
+
+  private async build(): Promise<BuiltIndex> {
+    if (this.built && Date.now() - this.builtAt < BUILD_TTL_MS) {
+      return this.built;
+    }
+
+    const keys = await this.storage.getKeys();
+    const files = await Promise.all(
+      keys.map((key) => this.storage.getItem(key)),
+    );
+
+    const chunks: IndexedChunk[] = [];
+    const documentFrequencies = new Map<string, number>();
+
+    for (const file of files) {
+      for (const chunk of file?.chunks || []) {
+        const tokens = tokenize(
+          [
+            chunk.metadata.fileName,
+            ...(chunk.metadata.headingPath || []),
+            chunk.content,
+          ].join(" "),
+        );
+
+        const termFrequencies = new Map<string, number>();
+        for (const token of tokens) {
+          termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+        }
+        for (const term of termFrequencies.keys()) {
+          documentFrequencies.set(
+            term,
+            (documentFrequencies.get(term) || 0) + 1,
+          );
+        }
+
+        chunks.push({ chunk, termFrequencies, length: tokens.length });
+      }
+    }
+
+    const averageLength =
+      chunks.reduce((sum, entry) => sum + entry.length, 0) /
+      (chunks.length || 1);
+
+    this.built = { chunks, documentFrequencies, averageLength };
+    this.builtAt = Date.now();
+    return this.built;
+  }
+}
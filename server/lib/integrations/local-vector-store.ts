@@ -0,0 +1,190 @@
+import { app } from "~/app";
+import type { DocumentChunk } from "./google-drive";
+import { DEFAULT_NAMESPACE } from "./knowledge-namespaces";
+import {
+  type ChunkMetadata,
+  cosineSimilarity,
+  type EmbeddingProvider,
+  type SearchResult,
+  type VectorQueryOptions,
+  type VectorStore,
+  type VectorStoreStats,
+} from "./vector-store";
+
+interface StoredVector {
+  id: string;
+  values: number[];
+  metadata: ChunkMetadata;
+}
+
+interface StoredFileVectors {
+  fileId: string;
+  // Unset for files stored before namespaces existed
+  namespace?: string;
+  dimension: number;
+  vectors: StoredVector[];
+}
+
+/**
+ * Vector store on Nitro storage, searched by brute-force cosine similarity.
+ * In development the `agent` mount is file-backed under .data/, so the index
+ * survives restarts; elsewhere it falls back to memory or KV. Meant for
+ * development, CI and small knowledge bases, not thousands of documents.
+ */
+export class LocalVectorStore implements VectorStore {
+  readonly name = "local";
+  private readonly storage = useStorage<StoredFileVectors>(
+    "agent:knowledge-vectors",
+  );
+
+  constructor(private readonly embeddings: EmbeddingProvider) {}
+
+  async initialize(): Promise<void> {
+    app.logger.info(
+      `Using local vector store with ${this.embeddings.name} embeddings`,
+    );
+  }
+
+  async upsert(chunks: DocumentChunk[]): Promise<void> {
+    const values = await this.embeddings.embed(
+      chunks.map((chunk) => chunk.content),
+    );
+    const indexedAt = new Date().toISOString();
+
+    // Group by file so each file is a single storage item. A file lives in
+    // exactly one namespace, so the file ID stays the key.
+    const byFile = new Map<string, StoredVector[]>();
+    chunks.forEach((chunk, index) => {
+      const vectors = byFile.get(chunk.metadata.fileId) || [];
+      vectors.push({
+        id: chunk.id,
+        values: values[index],
+        metadata: { ...chunk.metadata, content: chunk.content, indexedAt },
+      });
+      byFile.set(chunk.metadata.fileId, vectors);
+    });
+
+    for (const [fileId, vectors] of byFile) {
+      const namespace = vectors[0].metadata.namespace || DEFAULT_NAMESPACE;
+      const existing = await this.storage.getItem(fileId);
+      const sameNamespace =
+        existing && (existing.namespace || DEFAULT_NAMESPACE) === namespace;
+      const merged = new Map(
+        (sameNamespace ? existing.vectors : []).map((vector) => [
+          vector.id,
+          vector,
+        ]),
+      );
+      for (const vector of vectors) {
+        merged.set(vector.id, vector);
+      }
+
+      await this.storage.setItem(fileId, {
+        fileId,
+        namespace,
+        dimension: this.embeddings.dimension,
+        vectors: Array.from(merged.values()),
+      });
+    }
+  }
+
+  async deleteByFile(fileId: string, namespace: string): Promise<void> {
+    const file = await this.storage.getItem(fileId);
+    if (file && (file.namespace || DEFAULT_NAMESPACE) === namespace) {
+      await this.storage.removeItem(fileId);
+    }
+  }
+
+  async query(
+    query: string,
+    options: VectorQueryOptions = {},
+  ): Promise<SearchResult[]> {
+    const { topK = 5, minScore = 0.7, namespaces } = options;
+    if (namespaces?.length === 0) {
+      return [];
+    }
+
+    const [queryVector] = await this.embeddings.embed([query]);
+    const files = (await this.listFiles()).filter(
+      (file) =>
+        !namespaces || namespaces.includes(file.namespace || DEFAULT_NAMESPACE),
+    );
+
+    return files
+      .flatMap((file) => file.vectors)
+      .map((vector) => ({
+        id: vector.id,
+        score: cosineSimilarity(queryVector, vector.values),
+        metadata: vector.metadata,
+        content: vector.metadata.content,
+      }))
+      .filter((result) => result.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async getFileChunks(
+    fileId: string,
+    _chunkCount: number,
+    namespace: string,
+  ): Promise<DocumentChunk[]> {
+    const file = await this.storage.getItem(fileId);
+    if (!file || (file.namespace || DEFAULT_NAMESPACE) !== namespace) {
+      return [];
+    }
+
+    return file.vectors
+      .map(({ id, metadata: { content, ...metadata } }) => ({
+        id,
+        content,
+        metadata,
+      }))
+      .sort((a, b) => a.metadata.chunkIndex - b.metadata.chunkIndex);
+  }
+
+  async updateFileMetadata(
+    fileId: string,
+    _chunkCount: number,
+    namespace: string,
+    metadata: Partial<Pick<ChunkMetadata, "fileName" | "folderPath">>,
+  ): Promise<void> {
+    const file = await this.storage.getItem(fileId);
+    if (!file || (file.namespace || DEFAULT_NAMESPACE) !== namespace) return;
+
+    await this.storage.setItem(fileId, {
+      ...file,
+      vectors: file.vectors.map((vector) => ({
+        ...vector,
+        metadata: { ...vector.metadata, ...metadata },
+      })),
+    });
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    const files = await this.listFiles();
+
+    return {
+      vectorCount: files.reduce((sum, file) => sum + file.vectors.length, 0),
+      dimension: this.embeddings.dimension,
+      indexFullness: 0,
+    };
+  }
+
+  async clear(): Promise<void> {
+    app.logger.warn("Clearing all vectors from local vector store");
+    await this.storage.clear();
+  }
+
+  private async listFiles(): Promise<StoredFileVectors[]> {
+    const keys = await this.storage.getKeys();
+    const files = await Promise.all(
+      keys.map((key) => this.storage.getItem(key)),
+    );
+
+    // Vectors embedded by a different provider can't be compared
+    return files.filter(
+      (file): file is StoredFileVectors =>
+        file?.dimension === this.embeddings.dimension,
+    );
+  }
+}
@@ -1,30 +1,36 @@
-import { Pinecone } from '@pinecone-database/pinecone';
+import { Pinecone, type PineconeRecord } from '@pinecone-database/pinecone';
 import type { DocumentChunk } from './google-drive';
+import { DEFAULT_NAMESPACE } from './knowledge-namespaces';
+import type {
+  ChunkMetadata,
+  EmbeddingProvider,
+  SearchResult,
+  VectorQueryOptions,
+  VectorStore,
+  VectorStoreStats,
+} from './vector-store';
 
-export interface PineconeMetadata {
-  fileId: string;
-  fileName: string;
-  chunkIndex: number;
-  startChar: number;
-  endChar: number;
-  webViewLink?: string;
-  content: string;
-  indexedAt: string;
-}
+// Vectors indexed before namespaces existed live in Pinecone's unnamed
+// namespace, so the default namespace maps to it and needs no migration
+const toPineconeNamespace = (namespace: string) => (namespace === DEFAULT_NAMESPACE ? '' : namespace);
+// Index stats list the unnamed namespace as "" or "__default__" depending on API version
+const fromPineconeNamespace = (namespace: string) =>
+  namespace === '' || namespace === '__default__' ? DEFAULT_NAMESPACE : namespace;
 
-export interface SearchResult {
-  id: string;
-  score: number;
-  metadata: PineconeMetadata;
-  content: string;
+export class DimensionMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DimensionMismatchError';
+  }
 }
 
-export class PineconeClient {
+export class PineconeClient implements VectorStore {
+  readonly name = 'pinecone';
   private pinecone: Pinecone;
   private indexName: string;
   private index: any;
 
-  constructor() {
+  constructor(private readonly embeddings: EmbeddingProvider) {
     if (!process.env.PINECONE_API_KEY) {
       throw new Error('PINECONE_API_KEY environment variable is required');
     }
@@ -37,20 +43,51 @@ export class PineconeClient {
   }
 
   async initialize(): Promise<void> {
+    try {
+      await this.connect();
+    } catch (error) {
+      // If index doesn't exist, try to create it
+      if (error instanceof Error && error.message.includes('not found')) {
+        await this.createIndex(this.embeddings.dimension);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  private async connect(): Promise<void> {
     try {
       // Get the index (will throw error if doesn't exist)
       this.index = this.pinecone.Index(this.indexName);
       
       // Test the connection by getting index stats
-      await this.index.describeIndexStats();
+      const stats = await this.index.describeIndexStats();
+      this.assertDimension(stats.dimension);
       
       console.info(`Connected to Pinecone index: ${this.indexName}`);
     } catch (error) {
+      if (error instanceof DimensionMismatchError) {
+        this.index = undefined;
+        throw error;
+      }
       console.error(`Failed to connect to Pinecone index ${this.indexName}:`, error);
       throw new Error(`Pinecone initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Vectors of the wrong size are rejected on upsert and query, so fail
+   * early with a message that says what to change.
+   */
+  private assertDimension(indexDimension?: number): void {
+    if (indexDimension && indexDimension !== this.embeddings.dimension) {
+      throw new DimensionMismatchError(
+        `Pinecone index ${this.indexName} has dimension ${indexDimension}, but the ${this.embeddings.name} embedding provider produces ${this.embeddings.dimension}. ` +
+          'Point PINECONE_INDEX at a new index (it is created automatically) or set OPENAI_EMBEDDING_DIMENSIONS to match, then run a full reindex.'
+      );
+    }
+  }
+
   async createIndex(dimension: number = 1536): Promise<void> {
     try {
       console.info(`Creating Pinecone index: ${this.indexName}`);
@@ -78,7 +115,7 @@ export class PineconeClient {
           if (!ready) {
             console.info('Index still initializing...');
           }
-        } catch (error) {
+        } catch {
           console.debug('Waiting for index to be available...');
         }
       }
@@ -91,85 +128,86 @@ export class PineconeClient {
     }
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
+  async upsert(chunks: DocumentChunk[]): Promise<void> {
+    if (!this.index) {
+      await this.connect();
+    }
+
+    console.info(`Upserting ${chunks.length} document chunks to Pinecone`);
+
     try {
-      // Use OpenAI's text-embedding-ada-002 model
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          input: text.replace(/\n/g, ' ').trim(),
-          model: 'text-embedding-ada-002',
-        }),
-      });
+      // Embed the whole file before writing anything, so a failed embedding
+      // never leaves a half-indexed file behind. The provider batches and
+      // rate-limits its own requests.
+      const embeddings = await this.embeddings.embed(chunks.map((chunk) => chunk.content));
+      const indexedAt = new Date().toISOString();
+      const vectors = chunks.map((chunk, index) => ({
+        id: chunk.id,
+        values: embeddings[index],
+        metadata: {
+          ...chunk.metadata,
+          content: chunk.content,
+          indexedAt,
+        } as ChunkMetadata,
+      }));
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
+      const byNamespace = new Map<string, typeof vectors>();
+      for (const vector of vectors) {
+        const namespace = vector.metadata.namespace || DEFAULT_NAMESPACE;
+        byNamespace.set(namespace, [...(byNamespace.get(namespace) || []), vector]);
+      }
+
+      // Upsert in batches to stay under Pinecone's request size limit
+      const batchSize = 100;
+      for (const [namespace, namespaceVectors] of byNamespace) {
+        for (let i = 0; i < namespaceVectors.length; i += batchSize) {
+          await this.namespace(namespace).upsert(namespaceVectors.slice(i, i + batchSize));
+          
+          console.debug(`Upserted batch ${Math.floor(i / batchSize) + 1} of ${Math.ceil(namespaceVectors.length / batchSize)} to namespace ${namespace}`);
+        }
       }
 
-      const data = await response.json();
-      return data.data[0].embedding;
+      console.info(`Successfully upserted ${chunks.length} chunks to Pinecone`);
     } catch (error) {
-      console.error('Failed to generate embedding:', error);
-      throw new Error(`Embedding generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Failed to upsert chunks to Pinecone:', error);
+      throw error;
     }
   }
 
-  async upsertDocumentChunks(chunks: DocumentChunk[]): Promise<void> {
+  /**
+   * Read a file's stored chunks back out of Pinecone, e.g. to backfill the
+   * keyword index for files indexed before it existed.
+   */
+  async getFileChunks(fileId: string, chunkCount: number, namespace: string): Promise<DocumentChunk[]> {
     if (!this.index) {
-      await this.initialize();
+      await this.connect();
     }
 
-    console.info(`Upserting ${chunks.length} document chunks to Pinecone`);
-
     try {
-      // Process chunks in batches to avoid API limits
-      const batchSize = 100;
-      for (let i = 0; i < chunks.length; i += batchSize) {
-        const batch = chunks.slice(i, i + batchSize);
-        
-        // Generate embeddings for batch
-        const vectors = await Promise.all(
-          batch.map(async (chunk) => {
-            const embedding = await this.generateEmbedding(chunk.content);
-            
-            return {
-              id: chunk.id,
-              values: embedding,
-              metadata: {
-                ...chunk.metadata,
-                content: chunk.content,
-                indexedAt: new Date().toISOString(),
-              } as PineconeMetadata,
-            };
-          })
-        );
-
-        // Upsert batch to Pinecone
-        await this.index.upsert(vectors);
-        
-        console.debug(`Upserted batch ${Math.floor(i / batchSize) + 1} of ${Math.ceil(chunks.length / batchSize)}`);
-      }
+      const ids = Array.from({ length: chunkCount }, (_, chunkIndex) => `${fileId}_${chunkIndex}`);
+      const response = await this.namespace(namespace).fetch(ids);
 
-      console.info(`Successfully upserted ${chunks.length} chunks to Pinecone`);
+      return Object.values<PineconeRecord>(response.records || {})
+        .map((record) => {
+          const { content, ...metadata } = record.metadata as unknown as ChunkMetadata;
+          return { id: record.id, content, metadata };
+        })
+        .sort((a, b) => a.metadata.chunkIndex - b.metadata.chunkIndex);
     } catch (error) {
-      console.error('Failed to upsert chunks to Pinecone:', error);
+      console.error(`Failed to fetch chunks for file ${fileId}:`, error);
       throw error;
     }
   }
 
-  async deleteDocumentChunks(fileId: string): Promise<void> {
+  async deleteByFile(fileId: string, namespace: string): Promise<void> {
     if (!this.index) {
-      await this.initialize();
+      await this.connect();
     }
 
     try {
-      console.info(`Deleting chunks for file ${fileId} from Pinecone`);
+      console.info(`Deleting chunks for file ${fileId} from Pinecone namespace ${namespace}`);
       
-      await this.index.deleteMany({
+      await this.namespace(namespace).deleteMany({
         filter: { fileId: { $eq: fileId } },
       });
       
@@ -180,36 +218,78 @@ export class PineconeClient {
     }
   }
 
-  async searchSimilarChunks(
-    query: string,
-    topK: number = 5,
-    minScore: number = 0.7
-  ): Promise<SearchResult[]> {
+  /**
+   * Patch metadata on a file's existing chunks without re-embedding them.
+   */
+  async updateFileMetadata(
+    fileId: string,
+    chunkCount: number,
+    namespace: string,
+    metadata: Partial<Pick<ChunkMetadata, 'fileName' | 'folderPath'>>
+  ): Promise<void> {
+    if (!this.index) {
+      await this.connect();
+    }
+
+    try {
+      // Pinecone rejects undefined metadata values
+      const setMetadata = Object.fromEntries(
+        Object.entries(metadata).filter(([, value]) => value !== undefined)
+      );
+
+      for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) {
+        await this.namespace(namespace).update({
+          id: `${fileId}_${chunkIndex}`,
+          metadata: setMetadata,
+        });
+      }
+
+      console.info(`Updated metadata for ${chunkCount} chunks of file ${fileId}`);
+    } catch (error) {
+      console.error(`Failed to update metadata for file ${fileId}:`, error);
+      throw error;
+    }
+  }
+
+  async query(query: string, options: VectorQueryOptions = {}): Promise<SearchResult[]> {
     if (!this.index) {
-      await this.initialize();
+      await this.connect();
+    }
+
+    const { topK = 5, minScore = 0.7 } = options;
+    const namespaces = options.namespaces || (await this.listNamespaces());
+    if (namespaces.length === 0) {
+      return [];
     }
 
     try {
       console.debug(`Searching for similar chunks: "${query}"`);
       
       // Generate embedding for query
-      const queryEmbedding = await this.generateEmbedding(query);
+      const [queryEmbedding] = await this.embeddings.embed([query]);
       
-      // Search in Pinecone
-      const searchResponse = await this.index.query({
-        vector: queryEmbedding,
-        topK,
-        includeMetadata: true,
-      });
+      // Pinecone queries one namespace at a time
+      const responses = await Promise.all(
+        namespaces.map((namespace) =>
+          this.namespace(namespace).query({
+            vector: queryEmbedding,
+            topK,
+            includeMetadata: true,
+          })
+        )
+      );
 
-      const results = searchResponse.matches
-        ?.filter((match: any) => match.score && match.score >= minScore)
-        ?.map((match: any) => ({
+      const results: SearchResult[] = responses
+        .flatMap((response: any) => response.matches || [])
+        .filter((match: any) => match.score && match.score >= minScore)
+        .map((match: any) => ({
           id: match.id,
           score: match.score,
-          metadata: match.metadata as PineconeMetadata,
+          metadata: match.metadata as ChunkMetadata,
           content: match.metadata.content,
-        })) || [];
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
 
       console.debug(`Found ${results.length} relevant chunks (score >= ${minScore})`);
       
@@ -220,28 +300,36 @@ export class PineconeClient {
     }
   }
 
-  async getIndexStats(): Promise<any> {
+  async stats(): Promise<VectorStoreStats> {
     if (!this.index) {
-      await this.initialize();
+      await this.connect();
     }
 
     try {
-      return await this.index.describeIndexStats();
+      const stats = await this.index.describeIndexStats();
+
+      return {
+        vectorCount: stats.totalRecordCount ?? stats.totalVectorCount ?? 0,
+        dimension: stats.dimension || 0,
+        indexFullness: stats.indexFullness || 0,
+      };
     } catch (error) {
       console.error('Failed to get index stats:', error);
       throw error;
     }
   }
 
-  async clearIndex(): Promise<void> {
+  async clear(): Promise<void> {
     if (!this.index) {
-      await this.initialize();
+      await this.connect();
     }
 
     try {
       console.warn(`Clearing all vectors from index: ${this.indexName}`);
       
-      await this.index.deleteMany({});
+      for (const namespace of await this.listNamespaces()) {
+        await this.namespace(namespace).deleteAll();
+      }
       
       console.info('Successfully cleared index');
     } catch (error) {
@@ -249,4 +337,13 @@ export class PineconeClient {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  private namespace(namespace: string) {
+    return this.index.namespace(toPineconeNamespace(namespace));
+  }
+
+  private async listNamespaces(): Promise<string[]> {
+    const stats = await this.index.describeIndexStats();
+    return Object.keys(stats.namespaces || {}).map(fromPineconeNamespace);
+  }
+}
@@ -0,0 +1,158 @@
+export type SageRequestPriority = "normal" | "low";
+
+export interface SageBudgetConfig {
+  monthlyLimit?: number;
+  warnThresholds: number[];
+  lowPriorityCutoff: number;
+}
+
+export interface SageMonthlyUsage {
+  month: string;
+  total: number;
+  byService: Record<number, number>;
+  warnedThresholds: number[];
+}
+
+export interface SageUsageSummary extends SageMonthlyUsage {
+  monthlyLimit?: number;
+  percentUsed?: number;
+  remaining?: number;
+  lowPriorityBlocked: boolean;
+}
+
+/**
+ * Thrown when a low-priority request is refused to protect the monthly
+ * Sage query budget.
+ */
+export class SageBudgetExceededError extends Error {
+  constructor(public readonly usage: SageUsageSummary) {
+    super(
+      `Sage Connect query budget nearly exhausted (${usage.total} of ${usage.monthlyLimit} queries used this month). Skipping low-priority request.`,
+    );
+    this.name = "SageBudgetExceededError";
+  }
+}
+
+const currentMonth = (date = new Date()) => date.toISOString().slice(0, 7);
+
+const parseThresholds = (value?: string) =>
+  (value || "0.8,0.95")
+    .split(",")
+    .map((threshold) => Number.parseFloat(threshold))
+    .filter((threshold) => threshold > 0 && threshold <= 1)
+    .sort((a, b) => a - b);
+
+// Recording is a read-modify-write of the month's usage, so records are
+// applied one at a time. Otherwise parallel requests (e.g. product details
+// fetched with Promise.all) overwrite each other's counts.
+let recordQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Tracks Sage Connect queries per service per calendar month in persistent
+ * storage. Only requests that actually reach Sage are counted; cache hits
+ * are free.
+ */
+export class SageQueryBudget {
+  private readonly storage = useStorage<SageMonthlyUsage>("agent:sage-usage");
+  private readonly config: SageBudgetConfig;
+
+  constructor(config?: Partial<SageBudgetConfig>) {
+    const monthlyLimit = Number.parseInt(
+      process.env.SAGE_MONTHLY_QUERY_LIMIT || "",
+      10,
+    );
+
+    this.config = {
+      monthlyLimit:
+        Number.isFinite(monthlyLimit) && monthlyLimit > 0
+          ? monthlyLimit
+          : undefined,
+      warnThresholds: parseThresholds(process.env.SAGE_BUDGET_WARN_THRESHOLDS),
+      lowPriorityCutoff: Number.parseFloat(
+        process.env.SAGE_BUDGET_LOW_PRIORITY_CUTOFF || "0.9",
+      ),
+      ...config,
+    };
+  }
+
+  async getUsage(month = currentMonth()): Promise<SageUsageSummary> {
+    const usage = (await this.storage.getItem(month)) ?? {
+      month,
+      total: 0,
+      byService: {},
+      warnedThresholds: [],
+    };
+
+    return this.summarize(usage);
+  }
+
+  /**
+   * Refuse low-priority requests once usage passes the cutoff.
+   */
+  async assertAllowed(priority: SageRequestPriority = "normal"): Promise<void> {
+    if (priority !== "low" || !this.config.monthlyLimit) {
+      return;
+    }
+
+    const usage = await this.getUsage();
+    if (usage.lowPriorityBlocked) {
+      throw new SageBudgetExceededError(usage);
+    }
+  }
+
+  /**
+   * Count a query and return any warning thresholds crossed for the first
+   * time this month.
+   */
+  recordQuery(
+    serviceId: number,
+  ): Promise<{ usage: SageUsageSummary; crossedThresholds: number[] }> {
+    const record = recordQueue.then(() => this.applyQuery(serviceId));
+    recordQueue = record.catch(() => undefined);
+    return record;
+  }
+
+  private async applyQuery(
+    serviceId: number,
+  ): Promise<{ usage: SageUsageSummary; crossedThresholds: number[] }> {
+    const month = currentMonth();
+    const usage = (await this.storage.getItem(month)) ?? {
+      month,
+      total: 0,
+      byService: {},
+      warnedThresholds: [],
+    };
+
+    usage.total++;
+    usage.byService[serviceId] = (usage.byService[serviceId] || 0) + 1;
+
+    const crossedThresholds = this.config.monthlyLimit
+      ? this.config.warnThresholds.filter(
+          (threshold) =>
+            !usage.warnedThresholds.includes(threshold) &&
+            usage.total >= threshold * (this.config.monthlyLimit as number),
+        )
+      : [];
+    usage.warnedThresholds.push(...crossedThresholds);
+
+    await this.storage.setItem(month, usage);
+
+    return { usage: this.summarize(usage), crossedThresholds };
+  }
+
+  private summarize(usage: SageMonthlyUsage): SageUsageSummary {
+    const { monthlyLimit, lowPriorityCutoff } = this.config;
+
+    return {
+      ...usage,
+      monthlyLimit,
+      percentUsed: monthlyLimit ? usage.total / monthlyLimit : undefined,
+      remaining: monthlyLimit
+        ? Math.max(monthlyLimit - usage.total, 0)
+        : undefined,
+      lowPriorityBlocked: monthlyLimit
+        ? usage.total >= lowPriorityCutoff * monthlyLimit
+        : false,
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Cache lifetimes per Sage Connect service, in seconds. Services not listed
+ * here are never cached.
+ */
+export const SAGE_CACHE_TTLS: Record<number, number> = {
+  101: 24 * 60 * 60, // Categories & themes: a day
+  103: 60 * 60, // Product search: an hour
+  105: 6 * 60 * 60, // Product detail: six hours
+  107: 5 * 60, // Inventory: five minutes
+};
+
+export interface SageCacheMetrics {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  byService: Record<number, { hits: number; misses: number }>;
+  since: string;
+}
+
+interface CacheEntry<T> {
+  expiresAt: number;
+  data: T;
+}
+
+// Shared across client instances so metrics cover the whole process
+const counters = {
+  since: new Date().toISOString(),
+  byService: {} as Record<number, { hits: number; misses: number }>,
+};
+
+const record = (serviceId: number, outcome: "hits" | "misses") => {
+  counters.byService[serviceId] ??= { hits: 0, misses: 0 };
+  counters.byService[serviceId][outcome]++;
+};
+
+/**
+ * Sort object keys recursively and drop undefined values so equivalent
+ * payloads produce the same cache key.
+ */
+const normalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, entry]) => [key, normalize(entry)]),
+    );
+  }
+  if (typeof value === "string") {
+    return value.trim().toLowerCase();
+  }
+  return value;
+};
+
+export class SageResponseCache {
+  private readonly storage = useStorage("sage-cache");
+
+  isCacheable(serviceId: number): boolean {
+    return serviceId in SAGE_CACHE_TTLS;
+  }
+
+  getKey(serviceId: number, payload: unknown): string {
+    const hash = createHash("sha256")
+      .update(JSON.stringify(normalize(payload)))
+      .digest("hex");
+    return `${serviceId}:${hash}`;
+  }
+
+  async get<T>(serviceId: number, key: string): Promise<T | undefined> {
+    try {
+      const entry = await this.storage.getItem<CacheEntry<T>>(key);
+      if (entry && entry.expiresAt > Date.now()) {
+        record(serviceId, "hits");
+        return entry.data;
+      }
+    } catch (error) {
+      // Imported lazily so the cache also runs outside the Nitro server
+      const { app } = await import("~/app");
+      app.logger.warn(`Sage cache read failed for ${key}:`, error);
+    }
+
+    record(serviceId, "misses");
+    return undefined;
+  }
+
+  async set<T>(serviceId: number, key: string, data: T): Promise<void> {
+    const ttl = SAGE_CACHE_TTLS[serviceId];
+    try {
+      await this.storage.setItem<CacheEntry<T>>(
+        key,
+        { expiresAt: Date.now() + ttl * 1000, data },
+        { ttl },
+      );
+    } catch (error) {
+      const { app } = await import("~/app");
+      app.logger.warn(`Sage cache write failed for ${key}:`, error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear();
+  }
+
+  static getMetrics(): SageCacheMetrics {
+    const services = Object.values(counters.byService);
+    const hits = services.reduce((sum, service) => sum + service.hits, 0);
+    const misses = services.reduce((sum, service) => sum + service.misses, 0);
+
+    return {
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+      byService: structuredClone(counters.byService),
+      since: counters.since,
+    };
+  }
+}
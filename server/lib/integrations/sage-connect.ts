@@ -1,3 +1,17 @@
+import type { z } from 'zod';
+
+import {
+  SageQueryBudget,
+  type SageRequestPriority,
+  type SageUsageSummary,
+} from './sage-budget';
+import { SageResponseCache } from './sage-cache';
+import {
+  categoriesResponseSchema,
+  inventoryResponseSchema,
+  productDetailResponseSchema,
+  productSearchResponseSchema,
+} from './sage-schemas';
 
 export interface SageConnectConfig {
   apiUrl: string;
@@ -5,11 +19,51 @@ export interface SageConnectConfig {
   loginId: string;
   apiKey: string;
   apiVersion?: number;
+  cacheEnabled?: boolean;
+  // Called once per month for each budget warning threshold that is crossed
+  onBudgetThreshold?: (usage: SageUsageSummary, threshold: number) => void | Promise<void>;
 }
 
-export interface SageConnectError {
-  errNum: number;
-  errMsg: string;
+export interface SageRequestOptions {
+  priority?: SageRequestPriority;
+}
+
+/**
+ * Error raised for Sage Connect failures. `kind` is "api" when Sage returned
+ * an errNum and "schema" when a response no longer matches the expected shape.
+ */
+export class SageConnectError extends Error {
+  readonly kind: 'api' | 'schema';
+  readonly serviceId: number;
+  readonly errNum?: number;
+  readonly errMsg: string;
+  readonly issues?: string[];
+
+  constructor({
+    kind,
+    serviceId,
+    errNum,
+    errMsg,
+    issues,
+  }: {
+    kind: 'api' | 'schema';
+    serviceId: number;
+    errNum?: number;
+    errMsg: string;
+    issues?: string[];
+  }) {
+    super(
+      kind === 'api'
+        ? `Sage Connect Error ${errNum}: ${errMsg}`
+        : `Sage Connect service ${serviceId} returned an unexpected response: ${errMsg}`,
+    );
+    this.name = 'SageConnectError';
+    this.kind = kind;
+    this.serviceId = serviceId;
+    this.errNum = errNum;
+    this.errMsg = errMsg;
+    this.issues = issues;
+  }
 }
 
 export interface ProductSearchRequest {
@@ -69,6 +123,34 @@ export interface ProductDetail extends Product {
   leadTime?: string;
   weight?: string;
   dimensions?: string;
+  // Additional fields returned by Service 105
+  itemNum?: string;
+  keywords?: string;
+  decorationMethod?: string;
+  prodTime?: string;
+  imprintArea?: string;
+  priceIncludes?: string;
+  package?: string;
+  productCompliance?: string;
+  comment?: string;
+  weightPerCarton?: string | number;
+  unitsPerCarton?: string | number;
+  onHand?: number;
+  options?: ProductOption[];
+  pics?: ProductPicture[];
+}
+
+export interface ProductOption {
+  name: string;
+  values: Array<{
+    value: string;
+    prc?: Array<string | number>;
+  }>;
+}
+
+export interface ProductPicture {
+  url: string;
+  hasLogo?: boolean;
 }
 
 export interface InventoryItem {
@@ -104,6 +186,9 @@ export class SageConnectClient {
   private readonly loginId: string;
   private readonly apiKey: string;
   private readonly apiVersion: number;
+  private readonly cache?: SageResponseCache;
+  private readonly budget: SageQueryBudget;
+  private readonly onBudgetThreshold?: SageConnectConfig['onBudgetThreshold'];
 
   constructor(config: SageConnectConfig) {
     this.apiUrl = config.apiUrl;
@@ -111,14 +196,34 @@ export class SageConnectClient {
     this.loginId = config.loginId;
     this.apiKey = config.apiKey;
     this.apiVersion = config.apiVersion || 130;
+    this.cache = config.cacheEnabled === false ? undefined : new SageResponseCache();
+    this.budget = new SageQueryBudget();
+    this.onBudgetThreshold = config.onBudgetThreshold;
   }
 
-  private async request<T>(serviceId: number, payload: any): Promise<T> {
+  private async request<S extends z.ZodType>(serviceId: number, payload: any, schema: S, options: SageRequestOptions = {}): Promise<z.output<S>> {
+    // Serve repeat queries from cache to save paid Sage API calls
+    const cacheKey = this.cache?.isCacheable(serviceId)
+      ? this.cache.getKey(serviceId, payload)
+      : undefined;
+
+    if (this.cache && cacheKey) {
+      const cached = await this.cache.get<z.output<S>>(serviceId, cacheKey);
+      if (cached !== undefined) {
+        console.debug(`Sage Connect cache hit - Service ${serviceId}`);
+        return cached;
+      }
+    }
+
+    // Refuses low-priority requests when the monthly budget is nearly used up
+    await this.budget.assertAllowed(options.priority);
+    await this.trackQuery(serviceId);
+
     const requestBody = {
       serviceId,
       apiVer: this.apiVersion,
       auth: {
-        acctId: parseInt(this.accountId),
+        acctId: parseInt(this.accountId, 10),
         loginId: this.loginId,
         key: this.apiKey,
       },
@@ -126,7 +231,6 @@ export class SageConnectClient {
     };
 
     console.debug(`Sage Connect API request - Service ${serviceId}`);
-    console.info(`Sage Connect request body:`, JSON.stringify(requestBody, null, 2));
 
     try {
       const response = await fetch(this.apiUrl, {
@@ -145,17 +249,69 @@ export class SageConnectClient {
       
       // Check for Sage Connect errors
       if (result.errNum && result.errNum !== 0) {
-        const error = this.handleSageError(result.errNum);
-        throw new Error(`Sage Connect Error ${result.errNum}: ${error}`);
+        throw new SageConnectError({
+          kind: 'api',
+          serviceId,
+          errNum: result.errNum,
+          errMsg: this.handleSageError(result.errNum),
+        });
       }
 
-      return result as T;
+      // Only validated responses are cached, so a malformed one isn't served
+      // again until its TTL runs out
+      const parsed = this.parseResponse(serviceId, schema, result);
+
+      if (this.cache && cacheKey) {
+        await this.cache.set(serviceId, cacheKey, parsed);
+      }
+
+      return parsed;
     } catch (error) {
       console.error(`Sage Connect API request failed (Service ${serviceId}):`, error);
       throw error;
     }
   }
 
+  private async trackQuery(serviceId: number): Promise<void> {
+    try {
+      const { usage, crossedThresholds } = await this.budget.recordQuery(serviceId);
+      for (const threshold of crossedThresholds) {
+        console.warn(`Sage Connect query budget passed ${Math.round(threshold * 100)}%: ${usage.total} of ${usage.monthlyLimit} queries used`);
+        await this.onBudgetThreshold?.(usage, threshold);
+      }
+    } catch (error) {
+      // Usage tracking must never block the actual request
+      console.error('Failed to record Sage Connect query usage:', error);
+    }
+  }
+
+  async getUsage(): Promise<SageUsageSummary> {
+    return await this.budget.getUsage();
+  }
+
+  /**
+   * Validate and normalize a raw response, raising a schema SageConnectError
+   * when Sage has changed the response format.
+   */
+  private parseResponse<S extends z.ZodType>(serviceId: number, schema: S, response: unknown): z.output<S> {
+    const parsed = schema.safeParse(response);
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    const issues = parsed.error.issues.map(
+      (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`,
+    );
+    console.error(`Sage Connect response validation failed (Service ${serviceId}):`, issues);
+
+    throw new SageConnectError({
+      kind: 'schema',
+      serviceId,
+      errMsg: issues.slice(0, 3).join('; '),
+      issues,
+    });
+  }
+
   private handleSageError(errorCode: number): string {
     const errorMap: Record<number, string> = {
       10001: "General system error",
@@ -178,7 +334,7 @@ export class SageConnectClient {
     return errorMap[errorCode] || `Unknown Sage Connect error: ${errorCode}`;
   }
 
-  async searchProducts(request: ProductSearchRequest): Promise<ProductSearchResponse> {
+  async searchProducts(request: ProductSearchRequest, options: SageRequestOptions = {}): Promise<ProductSearchResponse> {
     const payload = {
       search: request.search,
       resultOptions: {
@@ -190,34 +346,15 @@ export class SageConnectClient {
     };
 
     try {
-      const response = await this.request<any>(103, payload); // Service ID 103: Product Search
-      
-      // Debug log the actual response structure
-      console.info('Sage Connect raw response:', JSON.stringify(response, null, 2));
-      
-      // Transform the API response to match our interface
-      const transformedProducts = (response.products || []).map((product: any) => ({
-        productId: product.prodEId?.toString() || product.spc || '',
-        prodEId: product.prodEId,
-        spc: product.spc || '',
-        prName: product.name || 'Promotional Product',
-        name: product.name,
-        category: product.category || 'General',
-        prc: product.prc, // Keep as string/number as returned by API
-        thumbPic: product.thumbPic,
-        supplier: product.supplier,
-        colors: product.colors,
-        themes: product.themes,
-        verified: product.verified,
-        envFriendly: product.envFriendly,
-      }));
-      
-      return {
-        products: transformedProducts,
-        totalFound: response.totalFound || 0,
-        offset: response.offset || 0,
-        limit: response.limit || transformedProducts.length || 25,
-      };
+      const { invalidProducts, ...response } = await this.request(103, payload, productSearchResponseSchema, options); // Service ID 103: Product Search
+
+      if (invalidProducts.length > 0) {
+        // Imported lazily so the client also runs outside the Nitro server
+        const { app } = await import('~/app');
+        app.logger.warn('Dropped Sage search results that failed validation:', invalidProducts);
+      }
+
+      return response;
     } catch (error) {
       console.error('Product search failed:', error);
       throw error;
@@ -234,20 +371,11 @@ export class SageConnectClient {
     };
 
     try {
-      const response = await this.request<any>(105, payload); // Service ID 105: Full Product Detail
-      
-      // Debug log the response
-      console.info('Service 105 response:', JSON.stringify(response, null, 2));
-      
-      // The response might have the product data at different levels
-      // Try response.product first, then response itself
-      const productData = response.product || response || {};
-      
-      // Transform to match our ProductDetail interface if needed
+      const product = await this.request(105, payload, productDetailResponseSchema); // Service ID 105: Full Product Detail
+
       return {
-        ...productData,
-        productId: productId, // Keep the original ID for reference
-        prodEId: productData.prodEId || parseInt(productId, 10),
+        ...product,
+        productId, // Keep the original ID for reference
       };
     } catch (error) {
       console.error(`Product detail lookup failed for ${productId}:`, error);
@@ -261,13 +389,7 @@ export class SageConnectClient {
     };
 
     try {
-      const response = await this.request<any>(107, payload); // Service ID 107: Inventory Status
-      
-      return {
-        productId,
-        inventory: response.inventory || [],
-        lastUpdated: response.lastUpdated || new Date().toISOString(),
-      };
+      return await this.request(107, payload, inventoryResponseSchema(productId)); // Service ID 107: Inventory Status
     } catch (error) {
       console.error(`Inventory check failed for ${productId}:`, error);
       throw error;
@@ -280,12 +402,7 @@ export class SageConnectClient {
     };
 
     try {
-      const response = await this.request<any>(101, payload); // Service ID 101: Research List Service
-      
-      return {
-        categories: response.categories || [],
-        themes: response.themes || [],
-      };
+      return await this.request(101, payload, categoriesResponseSchema); // Service ID 101: Research List Service
     } catch (error) {
       console.error('Categories lookup failed:', error);
       throw error;
@@ -316,7 +433,7 @@ export class SageConnectClient {
   }
 
   // Static method to create client from environment variables
-  static fromEnvironment(): SageConnectClient {
+  static fromEnvironment(overrides: Partial<SageConnectConfig> = {}): SageConnectClient {
     const requiredVars = [
       'SAGE_ACCOUNT_ID',
       'SAGE_LOGIN_ID', 
@@ -330,11 +447,13 @@ export class SageConnectClient {
     }
 
     return new SageConnectClient({
-      accountId: process.env.SAGE_ACCOUNT_ID!,
-      loginId: process.env.SAGE_LOGIN_ID!,
-      apiKey: process.env.SAGE_API_KEY!,
-      apiUrl: process.env.SAGE_API_URL!,
-      apiVersion: parseInt(process.env.SAGE_API_VERSION || '130'),
+      accountId: process.env.SAGE_ACCOUNT_ID,
+      loginId: process.env.SAGE_LOGIN_ID,
+      apiKey: process.env.SAGE_API_KEY,
+      apiUrl: process.env.SAGE_API_URL,
+      apiVersion: parseInt(process.env.SAGE_API_VERSION || '130', 10),
+      cacheEnabled: process.env.SAGE_CACHE_DISABLED !== 'true',
+      ...overrides,
     });
   }
 }
\ No newline at end of file
@@ -0,0 +1,327 @@
+import { z } from "zod";
+import type {
+  CategoriesResponse,
+  Category,
+  InventoryItem,
+  InventoryResponse,
+  Product,
+  ProductDetail,
+  ProductSearchResponse,
+} from "./sage-connect";
+
+// Sage returns numbers, flags and lists in several shapes depending on the
+// service and account settings, so the primitives below accept all of them.
+
+const numeric = z.union([z.number(), z.string()]).transform((value, ctx) => {
+  const parsed =
+    typeof value === "number"
+      ? value
+      : Number.parseFloat(value.replace(/[$,]/g, ""));
+  if (Number.isNaN(parsed)) {
+    ctx.addIssue({
+      code: "custom",
+      message: `Expected a number, received '${value}'`,
+    });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+const flag = z
+  .union([z.boolean(), z.number(), z.string()])
+  .transform(
+    (value) =>
+      value === true ||
+      value === 1 ||
+      value === "1" ||
+      value === "true" ||
+      value === "Y",
+  );
+
+const stringList = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) =>
+    Array.isArray(value)
+      ? value
+      : value
+          .split(",")
+          .map((entry) => entry.trim())
+          .filter(Boolean),
+  );
+
+const id = z.union([z.string(), z.number()]).transform(String);
+
+const supplierSchema = z
+  .looseObject({
+    coName: z.string().optional(),
+    coId: id.optional(),
+    suppId: id.optional(),
+  })
+  .transform((supplier) => ({
+    coName: supplier.coName ?? "",
+    coId: supplier.coId ?? supplier.suppId ?? "",
+  }));
+
+// Service 103: Product Search
+
+const searchProductSchema = z
+  .looseObject({
+    prodEId: numeric.optional(),
+    spc: z.string().optional(),
+    name: z.string().optional(),
+    prName: z.string().optional(),
+    category: z.string().optional(),
+    prc: z.union([z.string(), z.number()]).optional(),
+    thumbPic: z.string().optional(),
+    supplier: supplierSchema.optional(),
+    colors: stringList.optional(),
+    themes: stringList.optional(),
+    verified: flag.optional(),
+    envFriendly: flag.optional(),
+  })
+  .refine((product) => product.prodEId !== undefined || Boolean(product.spc), {
+    message: "Product is missing both prodEId and spc",
+  })
+  .transform(
+    (product): Product => ({
+      productId: product.prodEId?.toString() || product.spc || "",
+      prodEId: product.prodEId,
+      spc: product.spc || "",
+      prName: product.name || product.prName || "Promotional Product",
+      name: product.name || product.prName,
+      category: product.category || "General",
+      prc: product.prc,
+      thumbPic: product.thumbPic,
+      supplier: product.supplier,
+      colors: product.colors,
+      themes: product.themes,
+      verified: product.verified,
+      envFriendly: product.envFriendly,
+    }),
+  );
+
+/**
+ * Products are validated one at a time so a single bad listing doesn't
+ * reject the whole page; the ones that fail are dropped and their issues
+ * returned in invalidProducts.
+ */
+export const productSearchResponseSchema = z
+  .looseObject({
+    products: z.array(z.unknown()).default([]),
+    totalFound: numeric.default(0),
+    offset: numeric.optional(),
+    limit: numeric.optional(),
+  })
+  .transform(
+    (response): ProductSearchResponse & { invalidProducts: string[] } => {
+      const products: Product[] = [];
+      const invalidProducts: string[] = [];
+      for (const [index, product] of response.products.entries()) {
+        const parsed = searchProductSchema.safeParse(product);
+        if (parsed.success) {
+          products.push(parsed.data);
+          continue;
+        }
+        for (const issue of parsed.error.issues) {
+          invalidProducts.push(
+            `${["products", index, ...issue.path].join(".")}: ${issue.message}`,
+          );
+        }
+      }
+
+      return {
+        products,
+        totalFound: response.totalFound,
+        offset: response.offset ?? 0,
+        limit: response.limit ?? (response.products.length || 25),
+        invalidProducts,
+      };
+    },
+  );
+
+// Service 105: Full Product Detail
+
+const optionSchema = z.looseObject({
+  name: z.string(),
+  values: z
+    .array(
+      z.looseObject({
+        value: z.string(),
+        prc: z.array(z.union([z.string(), z.number()])).optional(),
+      }),
+    )
+    .default([]),
+});
+
+const pictureSchema = z.looseObject({
+  url: z.string(),
+  hasLogo: flag.optional(),
+});
+
+const productDetailSchema = z
+  .looseObject({
+    prodEId: numeric,
+    spc: z.string().optional(),
+    prName: z.string().optional(),
+    name: z.string().optional(),
+    category: z.string().optional(),
+    itemNum: z.string().optional(),
+    description: z.string().optional(),
+    keywords: z.string().optional(),
+    colors: stringList.optional(),
+    themes: stringList.optional(),
+    qty: z.array(numeric).default([]),
+    prc: z.array(z.union([z.string(), z.number()])).default([]),
+    options: z.array(optionSchema).optional(),
+    decorationMethod: z.string().optional(),
+    prodTime: z.string().optional(),
+    imprintArea: z.string().optional(),
+    dimensions: z.string().optional(),
+    priceIncludes: z.string().optional(),
+    package: z.string().optional(),
+    productCompliance: z.string().optional(),
+    comment: z.string().optional(),
+    weightPerCarton: z.union([z.string(), z.number()]).optional(),
+    unitsPerCarton: z.union([z.string(), z.number()]).optional(),
+    onHand: numeric.optional(),
+    pics: z.array(pictureSchema).optional(),
+    thumbPic: z.string().optional(),
+    supplier: supplierSchema.optional(),
+    verified: flag.optional(),
+    envFriendly: flag.optional(),
+  })
+  .transform((product): ProductDetail => {
+    // Quantity breaks arrive as parallel qty/prc arrays; blank trailing
+    // columns are returned as 0 or '' and are dropped here
+    const pricing = product.qty
+      .map((qty, index) => ({
+        qty,
+        price: Number.parseFloat(String(product.prc[index] ?? "")),
+      }))
+      .filter((tier) => tier.qty > 0 && tier.price > 0);
+
+    const prices = pricing.map((tier) => tier.price);
+    const priceRange =
+      prices.length > 1 && Math.min(...prices) !== Math.max(...prices)
+        ? `${Math.min(...prices).toFixed(2)} - ${Math.max(...prices).toFixed(2)}`
+        : prices[0]?.toFixed(2);
+
+    return {
+      productId: product.prodEId.toString(),
+      prodEId: product.prodEId,
+      spc: product.spc || "",
+      prName: product.prName || product.name || "",
+      name: product.name,
+      category: product.category,
+      itemNum: product.itemNum,
+      description: product.description,
+      keywords: product.keywords,
+      colors: product.colors,
+      themes: product.themes,
+      prc: priceRange,
+      pricing,
+      options: product.options,
+      decorationMethod: product.decorationMethod,
+      decorationMethods: product.decorationMethod
+        ? [product.decorationMethod]
+        : undefined,
+      prodTime: product.prodTime,
+      leadTime: product.prodTime,
+      imprintArea: product.imprintArea,
+      dimensions: product.dimensions,
+      priceIncludes: product.priceIncludes,
+      package: product.package,
+      productCompliance: product.productCompliance,
+      comment: product.comment,
+      weightPerCarton: product.weightPerCarton,
+      unitsPerCarton: product.unitsPerCarton,
+      onHand: product.onHand,
+      pics: product.pics,
+      images: product.pics?.map((pic) => pic.url),
+      thumbPic: product.thumbPic ?? product.pics?.[0]?.url,
+      supplier: product.supplier,
+      verified: product.verified,
+      envFriendly: product.envFriendly,
+    };
+  });
+
+// The product usually comes wrapped in { product }, but some accounts
+// return it at the root
+export const productDetailResponseSchema = z.preprocess(
+  (response) =>
+    response && typeof response === "object" && "product" in response
+      ? response.product
+      : response,
+  productDetailSchema,
+);
+
+// Service 107: Inventory Status
+
+const inventoryItemSchema = z
+  .looseObject({
+    sku: id,
+    available: numeric.default(0),
+    reserved: numeric.default(0),
+    onOrder: numeric.default(0),
+    expectedDate: z.string().optional(),
+    warehouse: z.string().optional(),
+  })
+  .transform(
+    (item): InventoryItem => ({
+      sku: item.sku,
+      available: item.available,
+      reserved: item.reserved,
+      onOrder: item.onOrder,
+      expectedDate: item.expectedDate,
+      warehouse: item.warehouse,
+    }),
+  );
+
+export const inventoryResponseSchema = (productId: string) =>
+  z
+    .looseObject({
+      inventory: z.array(inventoryItemSchema).default([]),
+      lastUpdated: z.string().optional(),
+    })
+    .transform(
+      (response): InventoryResponse => ({
+        productId,
+        inventory: response.inventory,
+        lastUpdated: response.lastUpdated || new Date().toISOString(),
+      }),
+    );
+
+// Service 101: Research List (categories & themes)
+
+const categorySchema: z.ZodType<Category> = z.lazy(() =>
+  z
+    .looseObject({
+      id: id,
+      name: z.string(),
+      parentId: id.optional(),
+      children: z.array(categorySchema).optional(),
+    })
+    .transform((category) => ({
+      id: category.id,
+      name: category.name,
+      parentId: category.parentId || undefined,
+      children: category.children,
+    })),
+);
+
+export const categoriesResponseSchema = z
+  .looseObject({
+    categories: z.array(categorySchema).default([]),
+    themes: z
+      .array(z.union([z.string(), z.looseObject({ name: z.string() })]))
+      .default([])
+      .transform((themes) =>
+        themes.map((theme) => (typeof theme === "string" ? theme : theme.name)),
+      ),
+  })
+  .transform(
+    (response): CategoriesResponse => ({
+      categories: response.categories,
+      themes: response.themes,
+    }),
+  );
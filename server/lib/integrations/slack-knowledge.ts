@@ -0,0 +1,295 @@
+import {
+  type ConversationsInfoResponse,
+  type PinsListResponse,
+  WebClient,
+} from "@slack/web-api";
+import { app } from "~/app";
+import { htmlToMarkdown } from "./document-extractors";
+import type { GoogleDriveFile } from "./google-drive";
+import type { NamespaceChannel } from "./knowledge-namespaces";
+
+export const SLACK_CANVAS_MIME_TYPE = "application/vnd.slack.canvas";
+export const SLACK_MESSAGE_MIME_TYPE = "application/vnd.slack.message";
+
+// Slack items share the index registry with Drive files, so their IDs are
+// prefixed to keep the two apart: slack:canvas:<fileId> and
+// slack:pin:<channel>:<ts>
+const SLACK_ID_PREFIX = "slack:";
+
+// Canvases are reported as Quip documents by the files API
+const CANVAS_FILETYPES = ["quip", "canvas"];
+
+const PIN_TITLE_LENGTH = 60;
+
+interface SlackFile {
+  id?: string;
+  title?: string;
+  name?: string;
+  filetype?: string;
+  permalink?: string;
+  url_private?: string;
+  url_private_download?: string;
+  created?: number;
+  timestamp?: number;
+  updated?: number;
+}
+
+interface SlackMessage {
+  ts?: string;
+  text?: string;
+  permalink?: string;
+  edited?: { ts?: string };
+}
+
+// The response types leave out pinned messages and the channel canvas,
+// which the API does return
+type PinnedItem = NonNullable<PinsListResponse["items"]>[number] & {
+  message?: SlackMessage;
+};
+type ChannelInfo = NonNullable<ConversationsInfoResponse["channel"]> & {
+  properties?: { canvas?: { file_id?: string } };
+};
+
+const isPinnedMessage = (
+  item: PinnedItem,
+): item is PinnedItem & { message: SlackMessage & { ts: string } } =>
+  item.type === "message" && Boolean(item.message?.ts);
+
+export const isSlackItemId = (id: string): boolean =>
+  id.startsWith(SLACK_ID_PREFIX);
+
+const toIsoTime = (seconds: number | string | undefined): string =>
+  new Date(Number(seconds || 0) * 1000).toISOString();
+
+const isCanvas = (
+  file: SlackFile | undefined,
+): file is SlackFile & { id: string } =>
+  Boolean(
+    file?.id && file.filetype && CANVAS_FILETYPES.includes(file.filetype),
+  );
+
+/**
+ * Convert Slack mrkdwn to plain markdown: links, channel and user mentions
+ * and broadcasts lose their angle-bracket syntax, entities are decoded.
+ */
+export const slackTextToMarkdown = (text: string): string =>
+  text
+    .replace(/<(https?:\/\/[^|>]+)\|([^>]+)>/g, "[$2]($1)")
+    .replace(/<(https?:\/\/[^>]+)>/g, "$1")
+    .replace(/<#\w+\|([^>]*)>/g, "#$1")
+    .replace(
+      /<@(\w+)(?:\|([^>]+))?>/g,
+      (_, id: string, name?: string) => `@${name || id}`,
+    )
+    .replace(
+      /<!([^|>]+)(?:\|([^>]+))?>/g,
+      (_, name: string, label?: string) => label || `@${name}`,
+    )
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+const pinTitle = (text: string): string => {
+  const firstLine =
+    slackTextToMarkdown(text)
+      .split("\n")
+      .find((line) => line.trim())
+      ?.trim() || "Pinned message";
+  return firstLine.length > PIN_TITLE_LENGTH
+    ? `${firstLine.slice(0, PIN_TITLE_LENGTH - 1)}…`
+    : firstLine;
+};
+
+/**
+ * Canvases and pinned messages in selected Slack channels, listed in the same
+ * shape as Drive files so DocumentProcessor can index and sync them the same
+ * way. Canvases are the channel canvas plus any canvas shared or pinned in
+ * the channel; each pinned message is its own document.
+ */
+export class SlackKnowledgeSource {
+  private readonly client = new WebClient(process.env.SLACK_BOT_TOKEN);
+  // Pinned message text from the last listing, so indexing a pin doesn't
+  // fetch the pins again
+  private readonly pinnedText = new Map<string, string>();
+
+  /**
+   * List the indexable items in a channel. Throws when the channel can't be
+   * read (e.g. the bot isn't a member), so callers don't mistake it for a
+   * channel whose items were all removed.
+   */
+  async listChannelItems({
+    channel,
+    namespace,
+  }: NamespaceChannel): Promise<GoogleDriveFile[]> {
+    const info: ChannelInfo | undefined = (
+      await this.client.conversations.info({ channel })
+    ).channel;
+    const folderPath = `Slack/${info?.name ? `#${info.name}` : channel}`;
+
+    const canvases = new Map<string, SlackFile>();
+    for (const file of await this.listChannelCanvases(channel)) {
+      canvases.set(file.id, file);
+    }
+
+    const pins: Array<SlackMessage & { ts: string }> = [];
+    for (const item of await this.listPins(channel)) {
+      const file = item.file as SlackFile | undefined;
+      if (item.type === "file" && isCanvas(file)) {
+        canvases.set(file.id, file);
+      } else if (isPinnedMessage(item)) {
+        pins.push(item.message);
+      }
+    }
+
+    // The channel canvas isn't always listed as a channel file
+    const channelCanvasId = info?.properties?.canvas?.file_id;
+    if (channelCanvasId && !canvases.has(channelCanvasId)) {
+      const { file } = await this.client.files.info({ file: channelCanvasId });
+      if (file) canvases.set(channelCanvasId, file as SlackFile);
+    }
+
+    const listed: GoogleDriveFile[] = [];
+
+    for (const [fileId, file] of canvases) {
+      listed.push({
+        id: `${SLACK_ID_PREFIX}canvas:${fileId}`,
+        name: file.title || file.name || "Untitled canvas",
+        mimeType: SLACK_CANVAS_MIME_TYPE,
+        modifiedTime: toIsoTime(file.updated || file.timestamp || file.created),
+        webViewLink: file.permalink,
+        folderPath,
+        namespace,
+      });
+    }
+
+    for (const message of pins) {
+      const { ts } = message;
+      const id = `${SLACK_ID_PREFIX}pin:${channel}:${ts}`;
+      const text = message.text || "";
+      this.pinnedText.set(id, text);
+
+      listed.push({
+        id,
+        name: pinTitle(text),
+        mimeType: SLACK_MESSAGE_MIME_TYPE,
+        // Edits don't change ts, so prefer the edit time
+        modifiedTime: toIsoTime(message.edited?.ts || ts),
+        webViewLink:
+          message.permalink || (await this.getPermalink(channel, ts)),
+        folderPath,
+        namespace,
+      });
+    }
+
+    return listed;
+  }
+
+  /**
+   * Look up a single item by ID in the configured channels. Returns
+   * undefined when it is no longer in any of them. The first configured
+   * channel wins, as in a full listing.
+   */
+  async getItem(
+    id: string,
+    channels: NamespaceChannel[],
+  ): Promise<GoogleDriveFile | undefined> {
+    const [kind, pinChannel] = id.slice(SLACK_ID_PREFIX.length).split(":");
+    const candidates =
+      kind === "pin"
+        ? channels.filter(({ channel }) => channel === pinChannel)
+        : channels;
+
+    for (const candidate of candidates) {
+      const item = (await this.listChannelItems(candidate)).find(
+        (listed) => listed.id === id,
+      );
+      if (item) return item;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Text of an item from listChannelItems, as markdown for the chunker.
+   */
+  async loadContent(item: GoogleDriveFile): Promise<string> {
+    const [kind, ...rest] = item.id.slice(SLACK_ID_PREFIX.length).split(":");
+
+    if (kind === "pin") {
+      const [channel, ts] = rest;
+      let text = this.pinnedText.get(item.id);
+      if (text === undefined) {
+        const pins = await this.listPins(channel);
+        text = pins.find((pinned) => pinned.message?.ts === ts)?.message?.text;
+      }
+      if (text === undefined) {
+        throw new Error("Message is no longer pinned");
+      }
+      return slackTextToMarkdown(text);
+    }
+
+    const [fileId] = rest;
+    const { file } = await this.client.files.info({ file: fileId });
+    const url = file?.url_private_download || file?.url_private;
+    if (!url) {
+      throw new Error("Canvas has no download URL");
+    }
+
+    // Canvases download as HTML
+    const response = await fetch(url, {
+      headers: { Authorization: `Bearer ${process.env.SLACK_BOT_TOKEN}` },
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Canvas download failed: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    return htmlToMarkdown(await response.text());
+  }
+
+  private async listChannelCanvases(
+    channel: string,
+  ): Promise<Array<SlackFile & { id: string }>> {
+    const canvases: Array<SlackFile & { id: string }> = [];
+
+    for (let page = 1; ; page++) {
+      const { files = [], paging } = await this.client.files.list({
+        channel,
+        types: "canvas",
+        count: 100,
+        page,
+      });
+      for (const file of files as SlackFile[]) {
+        if (isCanvas(file)) canvases.push(file);
+      }
+      if (!paging?.pages || page >= paging.pages) break;
+    }
+
+    return canvases;
+  }
+
+  private async listPins(channel: string): Promise<PinnedItem[]> {
+    const { items = [] } = await this.client.pins.list({ channel });
+    return items;
+  }
+
+  private async getPermalink(
+    channel: string,
+    ts: string,
+  ): Promise<string | undefined> {
+    try {
+      const { permalink } = await this.client.chat.getPermalink({
+        channel,
+        message_ts: ts,
+      });
+      return permalink;
+    } catch (error) {
+      app.logger.warn(
+        `Failed to get permalink for pinned message ${channel}/${ts}:`,
+        error,
+      );
+      return undefined;
+    }
+  }
+}
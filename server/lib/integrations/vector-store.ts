@@ -0,0 +1,121 @@
+import { createEmbeddingProvider } from "./embeddings";
+import type { DocumentChunk } from "./google-drive";
+import { LocalVectorStore } from "./local-vector-store";
+import { PineconeClient } from "./pinecone";
+
+export interface ChunkMetadata {
+  fileId: string;
+  fileName: string;
+  chunkIndex: number;
+  startChar: number;
+  endChar: number;
+  webViewLink?: string;
+  folderPath?: string;
+  namespace?: string;
+  headingPath?: string[];
+  content: string;
+  indexedAt: string;
+}
+
+export interface SearchResult {
+  id: string;
+  score: number;
+  metadata: ChunkMetadata;
+  content: string;
+}
+
+export interface VectorStoreStats {
+  vectorCount: number;
+  dimension: number;
+  indexFullness: number;
+}
+
+/**
+ * Turns text into embedding vectors. Implementations must return one vector
+ * per input, in order.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Identifies the vectors a provider produces. Vectors are only comparable
+ * when this matches, even at the same dimension.
+ */
+export const getEmbeddingModelId = (embeddings: EmbeddingProvider): string =>
+  `${embeddings.name}/${embeddings.model}@${embeddings.dimension}`;
+
+export interface VectorQueryOptions {
+  topK?: number;
+  minScore?: number;
+  // Namespaces to search; all of them when unset
+  namespaces?: string[];
+}
+
+/**
+ * Storage for embedded document chunks. Chunk IDs are `${fileId}_${chunkIndex}`
+ * and every chunk carries its text in metadata, so implementations can serve
+ * both similarity queries and chunk lookups. Chunks are partitioned by the
+ * namespace in their metadata (the default namespace when unset).
+ */
+export interface VectorStore {
+  readonly name: string;
+  // Connect, creating the index if it doesn't exist yet
+  initialize(): Promise<void>;
+  upsert(chunks: DocumentChunk[]): Promise<void>;
+  deleteByFile(fileId: string, namespace: string): Promise<void>;
+  query(query: string, options?: VectorQueryOptions): Promise<SearchResult[]>;
+  // Read a file's chunks back, e.g. to backfill the keyword index
+  getFileChunks(
+    fileId: string,
+    chunkCount: number,
+    namespace: string,
+  ): Promise<DocumentChunk[]>;
+  // Patch chunk metadata without re-embedding
+  updateFileMetadata(
+    fileId: string,
+    chunkCount: number,
+    namespace: string,
+    metadata: Partial<Pick<ChunkMetadata, "fileName" | "folderPath">>,
+  ): Promise<void>;
+  stats(): Promise<VectorStoreStats>;
+  clear(): Promise<void>;
+}
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * VECTOR_STORE selects the backend; by default Pinecone is used when
+ * PINECONE_API_KEY is set and the local store otherwise.
+ */
+export const createVectorStore = (
+  embeddings: EmbeddingProvider = createEmbeddingProvider(),
+): VectorStore => {
+  const backend =
+    process.env.VECTOR_STORE ||
+    (process.env.PINECONE_API_KEY ? "pinecone" : "local");
+
+  switch (backend) {
+    case "pinecone":
+      return new PineconeClient(embeddings);
+    case "local":
+      return new LocalVectorStore(embeddings);
+    default:
+      throw new Error(
+        `Unknown VECTOR_STORE "${backend}". Use "pinecone" or "local".`,
+      );
+  }
+};
@@ -0,0 +1,32 @@
+import { app } from "~/app";
+import type { SageUsageSummary } from "~/lib/integrations/sage-budget";
+
+/**
+ * Post a Sage query budget warning to `SAGE_BUDGET_ALERT_CHANNEL`.
+ */
+export const notifySageBudgetThreshold = async (
+  usage: SageUsageSummary,
+  threshold: number,
+) => {
+  const channel = process.env.SAGE_BUDGET_ALERT_CHANNEL;
+  if (!channel) {
+    app.logger.warn(
+      "Sage budget threshold crossed but SAGE_BUDGET_ALERT_CHANNEL is not set",
+      { month: usage.month, total: usage.total, threshold },
+    );
+    return;
+  }
+
+  const blocked = usage.lowPriorityBlocked
+    ? "\nSpeculative searches are now paused until next month."
+    : "";
+
+  try {
+    await app.client.chat.postMessage({
+      channel,
+      text: `:warning: *Sage Connect query budget at ${Math.round(threshold * 100)}%*\n${usage.total.toLocaleString()} of ${usage.monthlyLimit?.toLocaleString()} queries used for ${usage.month} (${usage.remaining?.toLocaleString()} remaining).${blocked}`,
+    });
+  } catch (error) {
+    app.logger.error("Failed to post Sage budget warning:", error);
+  }
+};
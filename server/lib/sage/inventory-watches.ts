@@ -0,0 +1,120 @@
+import { randomUUID } from "node:crypto";
+import type { InventoryResponse } from "~/lib/integrations/sage-connect";
+
+export const DEFAULT_WATCH_DAYS = 14;
+export const MAX_WATCH_DAYS = 90;
+
+/**
+ * A restock watch registered from a Slack conversation. The scheduled
+ * `inventory:poll-watches` task re-checks Sage inventory for each watch and
+ * posts back into the originating thread once stock reaches the threshold.
+ */
+export interface InventoryWatch {
+  id: string;
+  productId: string;
+  sku?: string;
+  threshold: number;
+  channel: string;
+  thread_ts?: string;
+  userId?: string;
+  createdAt: string;
+  expiresAt: string;
+  lastCheckedAt?: string;
+  // Unset until the first successful check, which only records a baseline
+  lastAvailable?: number;
+}
+
+const watchStorage = () =>
+  useStorage<InventoryWatch>("agent:inventory-watches");
+
+export const createInventoryWatch = async ({
+  productId,
+  sku,
+  threshold = 1,
+  channel,
+  thread_ts,
+  userId,
+  days = DEFAULT_WATCH_DAYS,
+}: {
+  productId: string;
+  sku?: string;
+  threshold?: number;
+  channel: string;
+  thread_ts?: string;
+  userId?: string;
+  days?: number;
+}): Promise<InventoryWatch> => {
+  const now = new Date();
+  const expiresAt = new Date(now);
+  expiresAt.setDate(expiresAt.getDate() + Math.min(days, MAX_WATCH_DAYS));
+
+  const watch: InventoryWatch = {
+    id: randomUUID().split("-")[0],
+    productId,
+    sku,
+    threshold,
+    channel,
+    thread_ts,
+    userId,
+    createdAt: now.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+  };
+
+  await watchStorage().setItem(watch.id, watch);
+  return watch;
+};
+
+export const getInventoryWatch = async (
+  id: string,
+): Promise<InventoryWatch | null> => {
+  return await watchStorage().getItem(id);
+};
+
+export const updateInventoryWatch = async (
+  watch: InventoryWatch,
+): Promise<void> => {
+  await watchStorage().setItem(watch.id, watch);
+};
+
+export const deleteInventoryWatch = async (id: string): Promise<boolean> => {
+  const storage = watchStorage();
+  if (!(await storage.hasItem(id))) {
+    return false;
+  }
+  await storage.removeItem(id);
+  return true;
+};
+
+/**
+ * List watches, optionally limited to a single channel.
+ */
+export const listInventoryWatches = async (
+  channel?: string,
+): Promise<InventoryWatch[]> => {
+  const storage = watchStorage();
+  const keys = await storage.getKeys();
+  const watches = await Promise.all(keys.map((key) => storage.getItem(key)));
+
+  return watches
+    .filter((watch): watch is InventoryWatch => Boolean(watch))
+    .filter((watch) => !channel || watch.channel === channel)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const isWatchExpired = (watch: InventoryWatch, now = new Date()) =>
+  new Date(watch.expiresAt).getTime() <= now.getTime();
+
+/**
+ * Total available units for a watch, restricted to the watched SKU if set.
+ */
+export const getWatchedAvailability = (
+  watch: InventoryWatch,
+  inventory: InventoryResponse,
+): number => {
+  return inventory.inventory
+    .filter(
+      (item) =>
+        !watch.sku || item.sku.toLowerCase() === watch.sku.toLowerCase(),
+    )
+    .reduce((sum, item) => sum + (item.available || 0), 0);
+};
@@ -0,0 +1,165 @@
+import type { KnownBlock } from "@slack/web-api";
+import type { ProductDetail } from "~/lib/integrations/sage-connect";
+import { formatCurrency, getPriceBreaks, selectPriceBreak } from "./quotes";
+
+export const DEFAULT_COMPARISON_QUANTITIES = [100, 250, 500, 1000];
+
+const CELL_WIDTH = 16;
+
+export interface ProductComparisonColumn {
+  productId: string;
+  name: string;
+  supplier: string;
+  prices: Record<number, string>;
+  decoration: string;
+  leadTime: string;
+  colors: string;
+  ecoFriendly: string;
+}
+
+const listOrString = (value?: string | string[]) => {
+  if (!value) return "";
+  return Array.isArray(value) ? value.join(", ") : value;
+};
+
+export const toComparisonColumn = (
+  product: ProductDetail,
+  quantities: number[],
+): ProductComparisonColumn => {
+  const breaks = getPriceBreaks(product);
+
+  const prices: Record<number, string> = {};
+  for (const quantity of quantities) {
+    const selected = selectPriceBreak(breaks, quantity);
+    prices[quantity] = !selected
+      ? "On request"
+      : selected.belowMinimum
+        ? `Min ${selected.priceBreak.qty}`
+        : formatCurrency(selected.priceBreak.price);
+  }
+
+  return {
+    productId: product.productId,
+    name: product.prName || product.name || `Product ${product.productId}`,
+    supplier: product.supplier?.coName || "N/A",
+    prices,
+    decoration:
+      product.decorationMethod ||
+      listOrString(product.decorationMethods) ||
+      "N/A",
+    leadTime: product.prodTime || product.leadTime || "N/A",
+    colors: listOrString(product.colors) || "N/A",
+    ecoFriendly: product.envFriendly ? "Yes" : "No",
+  };
+};
+
+const comparisonRows = (
+  columns: ProductComparisonColumn[],
+  quantities: number[],
+): Array<[string, string[]]> => [
+  ["Supplier", columns.map((column) => column.supplier)],
+  ...quantities.map((quantity): [string, string[]] => [
+    `@ ${quantity.toLocaleString()}`,
+    columns.map((column) => column.prices[quantity]),
+  ]),
+  ["Decoration", columns.map((column) => column.decoration)],
+  ["Lead time", columns.map((column) => column.leadTime)],
+  ["Colors", columns.map((column) => column.colors)],
+  ["Eco-friendly", columns.map((column) => column.ecoFriendly)],
+];
+
+const fitCell = (value: string, width = CELL_WIDTH) =>
+  (value.length > width ? `${value.slice(0, width - 1)}…` : value).padEnd(
+    width,
+  );
+
+/**
+ * Render the comparison as a fixed-width table for a Slack code block.
+ */
+export const formatComparisonTable = (
+  columns: ProductComparisonColumn[],
+  quantities: number[],
+) => {
+  const labelWidth = 12;
+  const header = [
+    fitCell("", labelWidth),
+    ...columns.map((_, index) => fitCell(`#${index + 1}`)),
+  ].join(" ");
+
+  const rows = comparisonRows(columns, quantities).map(([label, values]) =>
+    [fitCell(label, labelWidth), ...values.map((value) => fitCell(value))].join(
+      " ",
+    ),
+  );
+
+  return [header, ...rows].map((row) => row.trimEnd()).join("\n");
+};
+
+export const buildComparisonBlocks = (
+  columns: ProductComparisonColumn[],
+  quantities: number[],
+): KnownBlock[] => {
+  const legend = columns
+    .map(
+      (column, index) =>
+        `*#${index + 1}* ${column.name} (ID: ${column.productId})`,
+    )
+    .join("\n");
+
+  return [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: `Comparing ${columns.length} products`,
+      },
+    },
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: legend },
+    },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `\`\`\`${formatComparisonTable(columns, quantities)}\`\`\``,
+      },
+    },
+    {
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: "_Prices are supplier base prices per unit at each quantity, before decoration and markup._",
+        },
+      ],
+    },
+  ];
+};
+
+/**
+ * Plain-text comparison for the model and as the Slack message fallback.
+ */
+export const formatComparisonText = (
+  columns: ProductComparisonColumn[],
+  quantities: number[],
+) => {
+  return columns
+    .map((column, index) => {
+      const prices = quantities
+        .map(
+          (quantity) =>
+            `${quantity.toLocaleString()}: ${column.prices[quantity]}`,
+        )
+        .join(" | ");
+
+      return `**${index + 1}. ${column.name}** (ID: ${column.productId})
+- **Supplier:** ${column.supplier}
+- **Price per unit:** ${prices}
+- **Decoration:** ${column.decoration}
+- **Lead time:** ${column.leadTime}
+- **Colors:** ${column.colors}
+- **Eco-friendly:** ${column.ecoFriendly}`;
+    })
+    .join("\n\n");
+};
@@ -0,0 +1,182 @@
+import { randomUUID } from "node:crypto";
+import type { ActionsBlock, KnownBlock, SectionBlock } from "@slack/web-api";
+import type {
+  Product,
+  ProductSearchRequest,
+  ProductSearchResponse,
+} from "~/lib/integrations/sage-connect";
+
+export const SEARCH_PAGE_SIZE = 10;
+export const SHOW_MORE_ACTION_ID = "sage_search_next_page";
+
+// Stored searches only need to outlive the conversation they came from
+const SEARCH_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+/**
+ * Search criteria saved when results are shown, so the "Show next 10" button
+ * can replay the same search at a later offset without involving the model.
+ */
+export interface StoredProductSearch {
+  id: string;
+  request: ProductSearchRequest;
+  searchTerms: string;
+  priceRange: string;
+  channel?: string;
+  thread_ts?: string;
+  createdAt: string;
+}
+
+const searchStorage = () =>
+  useStorage<StoredProductSearch>("agent:product-searches");
+
+export const saveProductSearch = async (
+  search: Omit<StoredProductSearch, "id" | "createdAt">,
+): Promise<StoredProductSearch> => {
+  const stored: StoredProductSearch = {
+    ...search,
+    id: randomUUID().split("-")[0],
+    createdAt: new Date().toISOString(),
+  };
+
+  await searchStorage().setItem(stored.id, stored, {
+    ttl: SEARCH_TTL_SECONDS,
+  });
+  return stored;
+};
+
+export const getProductSearch = async (
+  id: string,
+): Promise<StoredProductSearch | null> => {
+  return await searchStorage().getItem(id);
+};
+
+/**
+ * Encode/decode the button value as `<searchId>:<offset>`.
+ */
+export const encodeShowMoreValue = (searchId: string, offset: number) =>
+  `${searchId}:${offset}`;
+
+export const decodeShowMoreValue = (value: string) => {
+  const [searchId, offset] = value.split(":");
+  return { searchId, offset: Number.parseInt(offset, 10) || 0 };
+};
+
+export const formatProductPrice = (product: Product) => {
+  if (typeof product.prc === "string" && product.prc) {
+    return `$${product.prc}`;
+  }
+  if (typeof product.prc === "number") {
+    return `$${product.prc.toFixed(2)}`;
+  }
+  return "Price on request";
+};
+
+export const formatPriceRange = (priceLow?: number, priceHigh?: number) =>
+  priceLow || priceHigh
+    ? ` in $${priceLow || 0}-${priceHigh || "∞"} range`
+    : "";
+
+const buildProductBlock = (
+  product: Product,
+  position: number,
+): SectionBlock => {
+  const supplierInfo = product.supplier ? ` by ${product.supplier.coName}` : "";
+  const features = [];
+  if (product.verified) features.push("✓ Verified");
+  if (product.envFriendly) features.push("🌱 Eco-Friendly");
+  const featuresDisplay =
+    features.length > 0 ? ` (${features.join(", ")})` : "";
+
+  const productText = `*${position}. ${product.prName}*\n*ID:* ${product.productId} | *SPC:* ${product.spc}\n*Price:* ${formatProductPrice(product)}${supplierInfo}${featuresDisplay}`;
+
+  return {
+    type: "section",
+    text: {
+      type: "mrkdwn",
+      text: productText,
+    },
+    ...(product.thumbPic && {
+      accessory: {
+        type: "image",
+        image_url: product.thumbPic,
+        alt_text: product.prName || "Product",
+      },
+    }),
+  };
+};
+
+/**
+ * Build the Block Kit message for one page of search results, including a
+ * "Show next 10" button when more results are available.
+ */
+export const buildProductSearchBlocks = (
+  results: ProductSearchResponse,
+  {
+    searchTerms,
+    priceRange,
+    offset,
+    searchId,
+  }: {
+    searchTerms: string;
+    priceRange: string;
+    offset: number;
+    searchId?: string;
+  },
+): KnownBlock[] => {
+  const products = results.products.slice(0, SEARCH_PAGE_SIZE);
+  const rangeLabel =
+    offset > 0
+      ? `Showing results ${offset + 1}-${offset + products.length}:`
+      : `Showing top ${products.length} results:`;
+
+  const blocks: KnownBlock[] = [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*Found ${results.totalFound} promotional products* ${searchTerms ? `for "${searchTerms}"` : ""}${priceRange}\n\n${rangeLabel}`,
+      },
+    },
+    ...products.map((product, index) =>
+      buildProductBlock(product, offset + index + 1),
+    ),
+    {
+      type: "divider",
+    },
+    {
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: '_To get more details about a product, use the product ID number (e.g., "get details for product 503406121")_',
+        },
+      ],
+    },
+  ];
+
+  const nextOffset = offset + products.length;
+  if (searchId && nextOffset < results.totalFound) {
+    blocks.push(buildShowMoreBlock(searchId, nextOffset, results.totalFound));
+  }
+
+  return blocks;
+};
+
+export const buildShowMoreBlock = (
+  searchId: string,
+  nextOffset: number,
+  totalFound: number,
+): ActionsBlock => ({
+  type: "actions",
+  elements: [
+    {
+      type: "button",
+      action_id: SHOW_MORE_ACTION_ID,
+      text: {
+        type: "plain_text",
+        text: `Show next ${Math.min(SEARCH_PAGE_SIZE, totalFound - nextOffset)}`,
+      },
+      value: encodeShowMoreValue(searchId, nextOffset),
+    },
+  ],
+});
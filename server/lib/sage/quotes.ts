@@ -0,0 +1,362 @@
+import { randomUUID } from "node:crypto";
+import type { KnownBlock } from "@slack/web-api";
+import type { ProductDetail } from "~/lib/integrations/sage-connect";
+
+export interface PriceBreak {
+  qty: number;
+  price: number;
+}
+
+/**
+ * Markup applied to the unit cost once the line quantity reaches `minQty`.
+ * Rules are evaluated highest `minQty` first.
+ */
+export interface MarkupRule {
+  minQty: number;
+  markupPercent: number;
+}
+
+export interface QuoteLineInput {
+  productId: string;
+  quantity: number;
+  decorationMethod?: string;
+  decorationCostPerUnit?: number;
+  setupCharge?: number;
+}
+
+export interface QuoteLine extends QuoteLineInput {
+  productName: string;
+  supplier?: string;
+  priceBreakQty: number;
+  belowMinimum: boolean;
+  baseUnitCost: number;
+  unitCost: number;
+  markupPercent: number;
+  unitPrice: number;
+  extendedPrice: number;
+  lineTotal: number;
+}
+
+export interface Quote {
+  id: string;
+  revision: number;
+  clientName?: string;
+  notes?: string;
+  markupPercentOverride?: number;
+  channel?: string;
+  thread_ts?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+  lines: QuoteLine[];
+  subtotal: number;
+  setupTotal: number;
+  total: number;
+}
+
+export const DEFAULT_MARKUP_RULES: MarkupRule[] = [
+  { minQty: 1, markupPercent: 50 },
+  { minQty: 250, markupPercent: 40 },
+  { minQty: 1000, markupPercent: 35 },
+  { minQty: 5000, markupPercent: 30 },
+];
+
+const quoteStorage = () => useStorage<Quote>("agent:quotes");
+
+export const roundCurrency = (value: number) =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+export const formatCurrency = (value: number) =>
+  `$${value.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+/**
+ * Load markup rules from `QUOTE_MARKUP_RULES` (a JSON array of
+ * `{ minQty, markupPercent }`), falling back to the defaults.
+ */
+export const getMarkupRules = (): MarkupRule[] => {
+  const configured = process.env.QUOTE_MARKUP_RULES;
+  if (!configured) {
+    return DEFAULT_MARKUP_RULES;
+  }
+
+  try {
+    const rules = JSON.parse(configured) as MarkupRule[];
+    const valid = rules.filter(
+      (rule) =>
+        typeof rule.minQty === "number" &&
+        typeof rule.markupPercent === "number",
+    );
+    return valid.length > 0 ? valid : DEFAULT_MARKUP_RULES;
+  } catch {
+    return DEFAULT_MARKUP_RULES;
+  }
+};
+
+export const getMarkupPercent = (rules: MarkupRule[], quantity: number) => {
+  const rule = [...rules]
+    .sort((a, b) => b.minQty - a.minQty)
+    .find((candidate) => quantity >= candidate.minQty);
+  return rule?.markupPercent ?? 0;
+};
+
+export const getPriceBreaks = (product: ProductDetail): PriceBreak[] => {
+  return (product.pricing ?? [])
+    .filter((tier) => tier.qty > 0 && tier.price > 0)
+    .sort((a, b) => a.qty - b.qty);
+};
+
+/**
+ * Pick the price break for a quantity: the largest break not above it, or
+ * the smallest break when the quantity is below the supplier minimum.
+ */
+export const selectPriceBreak = (
+  breaks: PriceBreak[],
+  quantity: number,
+): { priceBreak: PriceBreak; belowMinimum: boolean } | null => {
+  if (breaks.length === 0) {
+    return null;
+  }
+
+  const eligible = breaks.filter((tier) => tier.qty <= quantity);
+  if (eligible.length === 0) {
+    return { priceBreak: breaks[0], belowMinimum: true };
+  }
+
+  return { priceBreak: eligible[eligible.length - 1], belowMinimum: false };
+};
+
+export const buildQuoteLine = (
+  product: ProductDetail,
+  input: QuoteLineInput,
+  rules: MarkupRule[],
+  markupPercentOverride?: number,
+): QuoteLine => {
+  const selected = selectPriceBreak(getPriceBreaks(product), input.quantity);
+  if (!selected) {
+    throw new Error(
+      `No price breaks available for product ${input.productId}. Contact the supplier for pricing.`,
+    );
+  }
+
+  const decorationCost = input.decorationCostPerUnit ?? 0;
+  const setupCharge = input.setupCharge ?? 0;
+  const unitCost = selected.priceBreak.price + decorationCost;
+  const markupPercent =
+    markupPercentOverride ?? getMarkupPercent(rules, input.quantity);
+  const unitPrice = roundCurrency(unitCost * (1 + markupPercent / 100));
+  const extendedPrice = roundCurrency(unitPrice * input.quantity);
+
+  return {
+    ...input,
+    productName: product.prName || product.name || `Product ${input.productId}`,
+    supplier: product.supplier?.coName,
+    priceBreakQty: selected.priceBreak.qty,
+    belowMinimum: selected.belowMinimum,
+    baseUnitCost: selected.priceBreak.price,
+    unitCost: roundCurrency(unitCost),
+    markupPercent,
+    unitPrice,
+    extendedPrice,
+    lineTotal: roundCurrency(extendedPrice + setupCharge),
+  };
+};
+
+export const calculateQuoteTotals = (lines: QuoteLine[]) => {
+  const subtotal = roundCurrency(
+    lines.reduce((sum, line) => sum + line.extendedPrice, 0),
+  );
+  const setupTotal = roundCurrency(
+    lines.reduce((sum, line) => sum + (line.setupCharge ?? 0), 0),
+  );
+  return { subtotal, setupTotal, total: roundCurrency(subtotal + setupTotal) };
+};
+
+export const createQuoteId = () =>
+  `Q-${randomUUID().split("-")[0].toUpperCase()}`;
+
+export const saveQuote = async (quote: Quote): Promise<void> => {
+  await quoteStorage().setItem(quote.id, quote);
+};
+
+export const getQuote = async (id: string): Promise<Quote | null> => {
+  return await quoteStorage().getItem(id.toUpperCase());
+};
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const quoteToCsv = (quote: Quote): string => {
+  const header = [
+    "Product ID",
+    "Product",
+    "Supplier",
+    "Quantity",
+    "Decoration Method",
+    "Unit Price",
+    "Extended Price",
+    "Setup Charge",
+    "Line Total",
+  ];
+
+  const rows = quote.lines.map((line) => [
+    line.productId,
+    line.productName,
+    line.supplier,
+    line.quantity,
+    line.decorationMethod,
+    line.unitPrice.toFixed(2),
+    line.extendedPrice.toFixed(2),
+    (line.setupCharge ?? 0).toFixed(2),
+    line.lineTotal.toFixed(2),
+  ]);
+
+  const totals = [
+    ["", "", "", "", "", "", "Subtotal", "", quote.subtotal.toFixed(2)],
+    ["", "", "", "", "", "", "Setup", "", quote.setupTotal.toFixed(2)],
+    ["", "", "", "", "", "", "Total", "", quote.total.toFixed(2)],
+  ];
+
+  return [header, ...rows, ...totals]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\n");
+};
+
+/**
+ * Client-facing JSON export. Internal cost and markup fields are omitted.
+ */
+export const quoteToJson = (quote: Quote): string => {
+  return JSON.stringify(
+    {
+      id: quote.id,
+      revision: quote.revision,
+      clientName: quote.clientName,
+      notes: quote.notes,
+      updatedAt: quote.updatedAt,
+      lines: quote.lines.map((line) => ({
+        productId: line.productId,
+        productName: line.productName,
+        supplier: line.supplier,
+        quantity: line.quantity,
+        decorationMethod: line.decorationMethod,
+        unitPrice: line.unitPrice,
+        extendedPrice: line.extendedPrice,
+        setupCharge: line.setupCharge ?? 0,
+        lineTotal: line.lineTotal,
+      })),
+      subtotal: quote.subtotal,
+      setupTotal: quote.setupTotal,
+      total: quote.total,
+    },
+    null,
+    2,
+  );
+};
+
+export const buildQuoteBlocks = (quote: Quote): KnownBlock[] => {
+  const title = quote.clientName
+    ? `Quote ${quote.id} for ${quote.clientName}`
+    : `Quote ${quote.id}`;
+
+  const blocks: KnownBlock[] = [
+    {
+      type: "header",
+      text: { type: "plain_text", text: title.slice(0, 150) },
+    },
+    {
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `Revision ${quote.revision} • Updated ${new Date(quote.updatedAt).toLocaleDateString("en-US")}`,
+        },
+      ],
+    },
+    { type: "divider" },
+  ];
+
+  for (const line of quote.lines) {
+    const details = [
+      `*${line.productName}*${line.supplier ? ` by ${line.supplier}` : ""}`,
+      `ID: ${line.productId}${line.decorationMethod ? ` | Decoration: ${line.decorationMethod}` : ""}`,
+      line.belowMinimum
+        ? `:warning: Below supplier minimum of ${line.priceBreakQty.toLocaleString()} units`
+        : "",
+    ].filter(Boolean);
+
+    blocks.push({
+      type: "section",
+      text: { type: "mrkdwn", text: details.join("\n") },
+      fields: [
+        {
+          type: "mrkdwn",
+          text: `*Quantity:*\n${line.quantity.toLocaleString()}`,
+        },
+        {
+          type: "mrkdwn",
+          text: `*Unit Price:*\n${formatCurrency(line.unitPrice)}`,
+        },
+        {
+          type: "mrkdwn",
+          text: `*Extended:*\n${formatCurrency(line.extendedPrice)}`,
+        },
+        {
+          type: "mrkdwn",
+          text: `*Setup:*\n${formatCurrency(line.setupCharge ?? 0)}`,
+        },
+      ],
+    });
+  }
+
+  blocks.push(
+    { type: "divider" },
+    {
+      type: "section",
+      fields: [
+        {
+          type: "mrkdwn",
+          text: `*Subtotal:*\n${formatCurrency(quote.subtotal)}`,
+        },
+        {
+          type: "mrkdwn",
+          text: `*Setup Charges:*\n${formatCurrency(quote.setupTotal)}`,
+        },
+        { type: "mrkdwn", text: `*Total:*\n*${formatCurrency(quote.total)}*` },
+      ],
+    },
+  );
+
+  if (quote.notes) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: quote.notes.slice(0, 2000) }],
+    });
+  }
+
+  return blocks;
+};
+
+/**
+ * Plain-text summary for the model and as the Slack message fallback.
+ */
+export const formatQuoteSummary = (quote: Quote): string => {
+  const lines = quote.lines
+    .map((line) => {
+      const setup = line.setupCharge
+        ? ` + ${formatCurrency(line.setupCharge)} setup`
+        : "";
+      const minimum = line.belowMinimum
+        ? ` (below ${line.priceBreakQty} unit minimum)`
+        : "";
+      return `- ${line.productName} (${line.productId}): ${line.quantity.toLocaleString()} × ${formatCurrency(line.unitPrice)} = ${formatCurrency(line.extendedPrice)}${setup}${minimum}`;
+    })
+    .join("\n");
+
+  return `Quote ${quote.id} (revision ${quote.revision})${quote.clientName ? ` for ${quote.clientName}` : ""}
+${lines}
+Subtotal: ${formatCurrency(quote.subtotal)} | Setup: ${formatCurrency(quote.setupTotal)} | Total: ${formatCurrency(quote.total)}`;
+};
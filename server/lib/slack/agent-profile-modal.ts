@@ -0,0 +1,274 @@
+import type { InputBlock, ModalView, PlainTextOption } from "@slack/web-api";
+import {
+  type AgentProfile,
+  DEFAULT_MAX_STEPS,
+  DEFAULT_MODEL,
+  DM_PROFILE_KEY,
+  MAX_STEPS_LIMIT,
+  MEMORY_SCOPES,
+  type MemoryScope,
+} from "~/lib/ai/agent-profiles";
+import { DEFAULT_PROMPT_VARIANT } from "~/lib/ai/prompts";
+import { AGENT_TOOL_NAMES } from "~/lib/ai/respond-to-message";
+
+export const AGENT_PROFILE_COMMAND = "/agent-profile";
+export const AGENT_PROFILE_VIEW_ID = "agent_profile_modal";
+
+// Block IDs double as action IDs for the modal's inputs
+const PROMPT_VARIANT_BLOCK = "agent_profile_prompt_variant";
+const MODEL_BLOCK = "agent_profile_model";
+const TOOLS_BLOCK = "agent_profile_tools";
+const MAX_STEPS_BLOCK = "agent_profile_max_steps";
+const MEMORY_SCOPE_BLOCK = "agent_profile_memory_scope";
+
+// AI Gateway model IDs are "<provider>/<model>"
+const MODEL_PATTERN = /^[\w.-]+\/[\w.:-]+$/;
+
+const MEMORY_SCOPE_LABELS: Record<MemoryScope, string> = {
+  user: "Per user",
+  channel: "Shared by the channel",
+  none: "Off",
+};
+
+/**
+ * Slack users allowed to edit agent profiles, from the comma-separated
+ * AGENT_PROFILE_ADMIN_USER_IDS. Nobody can edit them when it isn't set.
+ */
+export const isAgentProfileAdmin = (userId: string): boolean =>
+  (process.env.AGENT_PROFILE_ADMIN_USER_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .includes(userId);
+
+export const describeProfileKey = (key: string) =>
+  key === DM_PROFILE_KEY ? "direct messages" : `<#${key}>`;
+
+const option = (value: string, text = value): PlainTextOption => ({
+  text: { type: "plain_text", text },
+  value,
+});
+
+const textInput = ({
+  blockId,
+  label,
+  hint,
+  placeholder,
+  initialValue,
+}: {
+  blockId: string;
+  label: string;
+  hint: string;
+  placeholder: string;
+  initialValue?: string;
+}): InputBlock => ({
+  type: "input",
+  block_id: blockId,
+  optional: true,
+  label: { type: "plain_text", text: label },
+  hint: { type: "plain_text", text: hint },
+  element: {
+    type: "plain_text_input",
+    action_id: blockId,
+    placeholder: { type: "plain_text", text: placeholder },
+    ...(initialValue ? { initial_value: initialValue } : {}),
+  },
+});
+
+/**
+ * Modal for editing the agent profile of a channel, or of DMs. Every field
+ * is optional; empty fields use the defaults.
+ */
+export const buildAgentProfileModal = ({
+  key,
+  channel,
+  profile,
+}: {
+  key: string;
+  channel: string;
+  profile?: AgentProfile | null;
+}): ModalView => {
+  const toolOptions = AGENT_TOOL_NAMES.map((name) => option(name));
+  const selectedTools = toolOptions.filter(({ value }) =>
+    profile?.tools?.includes(value),
+  );
+  const memoryScopeOptions = MEMORY_SCOPES.map((scope) =>
+    option(scope, MEMORY_SCOPE_LABELS[scope]),
+  );
+  const selectedMemoryScope = memoryScopeOptions.find(
+    ({ value }) => value === profile?.memoryScope,
+  );
+
+  return {
+    type: "modal",
+    callback_id: AGENT_PROFILE_VIEW_ID,
+    private_metadata: JSON.stringify({ key, channel }),
+    title: { type: "plain_text", text: "Agent profile" },
+    submit: { type: "plain_text", text: "Save" },
+    close: { type: "plain_text", text: "Cancel" },
+    blocks: [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `How the bot behaves in ${describeProfileKey(key)}. Leave a field empty to use the default; run \`${AGENT_PROFILE_COMMAND} reset\` to clear the profile.`,
+        },
+      },
+      textInput({
+        blockId: PROMPT_VARIANT_BLOCK,
+        label: "Persona prompt",
+        hint: 'A prompt variant from server/assets/prompts, e.g. "brand-solutions" or "brand-solutions@1".',
+        placeholder: DEFAULT_PROMPT_VARIANT,
+        initialValue: profile?.promptVariant,
+      }),
+      textInput({
+        blockId: MODEL_BLOCK,
+        label: "Model",
+        hint: 'An AI Gateway model ID, "<provider>/<model>".',
+        placeholder: DEFAULT_MODEL,
+        initialValue: profile?.model,
+      }),
+      {
+        type: "input",
+        block_id: TOOLS_BLOCK,
+        optional: true,
+        label: { type: "plain_text", text: "Enabled tools" },
+        hint: { type: "plain_text", text: "Leave empty to enable every tool." },
+        element: {
+          type: "multi_static_select",
+          action_id: TOOLS_BLOCK,
+          placeholder: { type: "plain_text", text: "All tools" },
+          options: toolOptions,
+          ...(selectedTools.length > 0
+            ? { initial_options: selectedTools }
+            : {}),
+        },
+      },
+      {
+        type: "input",
+        block_id: MAX_STEPS_BLOCK,
+        optional: true,
+        label: { type: "plain_text", text: "Step limit" },
+        hint: {
+          type: "plain_text",
+          text: "Model and tool steps per reply. More steps allow longer research but take longer.",
+        },
+        element: {
+          type: "number_input",
+          action_id: MAX_STEPS_BLOCK,
+          is_decimal_allowed: false,
+          min_value: "1",
+          max_value: String(MAX_STEPS_LIMIT),
+          placeholder: { type: "plain_text", text: String(DEFAULT_MAX_STEPS) },
+          ...(profile?.maxSteps
+            ? { initial_value: String(profile.maxSteps) }
+            : {}),
+        },
+      },
+      {
+        type: "input",
+        block_id: MEMORY_SCOPE_BLOCK,
+        optional: true,
+        label: { type: "plain_text", text: "Memory" },
+        hint: {
+          type: "plain_text",
+          text: "Whose memories the bot searches and saves to.",
+        },
+        element: {
+          type: "static_select",
+          action_id: MEMORY_SCOPE_BLOCK,
+          placeholder: { type: "plain_text", text: MEMORY_SCOPE_LABELS.user },
+          options: memoryScopeOptions,
+          ...(selectedMemoryScope
+            ? { initial_option: selectedMemoryScope }
+            : {}),
+        },
+      },
+    ],
+  };
+};
+
+interface SubmittedValue {
+  value?: string | null;
+  selected_option?: { value?: string } | null;
+  selected_options?: Array<{ value?: string }>;
+}
+
+export type AgentProfileFields = Pick<
+  AgentProfile,
+  "promptVariant" | "model" | "tools" | "maxSteps" | "memoryScope"
+>;
+
+export type AgentProfileSubmission =
+  | { ok: true; fields: AgentProfileFields }
+  | { ok: false; errors: Record<string, string> };
+
+/**
+ * Read the submitted modal. Returns the profile fields, or Slack's
+ * per-block errors when a value is invalid. The prompt variant is only
+ * checked for shape here; the caller loads it to make sure it exists.
+ */
+export const parseAgentProfileSubmission = (
+  values: Record<string, Record<string, SubmittedValue>>,
+): AgentProfileSubmission => {
+  const input = (blockId: string) => values[blockId]?.[blockId];
+  const text = (blockId: string) => input(blockId)?.value?.trim() || undefined;
+
+  const errors: Record<string, string> = {};
+
+  const model = text(MODEL_BLOCK);
+  if (model && !MODEL_PATTERN.test(model)) {
+    errors[MODEL_BLOCK] = 'Use "<provider>/<model>", e.g. openai/gpt-4o.';
+  }
+
+  const steps = text(MAX_STEPS_BLOCK);
+  const maxSteps = steps ? Number(steps) : undefined;
+  if (
+    maxSteps !== undefined &&
+    (!Number.isInteger(maxSteps) || maxSteps < 1 || maxSteps > MAX_STEPS_LIMIT)
+  ) {
+    errors[MAX_STEPS_BLOCK] =
+      `Enter a whole number from 1 to ${MAX_STEPS_LIMIT}.`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  const tools = (input(TOOLS_BLOCK)?.selected_options ?? [])
+    .map(({ value }) => value)
+    .filter((value): value is string => Boolean(value));
+  const memoryScope = input(MEMORY_SCOPE_BLOCK)?.selected_option?.value as
+    | MemoryScope
+    | undefined;
+
+  return {
+    ok: true,
+    fields: {
+      promptVariant: text(PROMPT_VARIANT_BLOCK),
+      model,
+      tools: tools.length > 0 ? tools : undefined,
+      maxSteps,
+      memoryScope,
+    },
+  };
+};
+
+export const promptVariantError = (message: string) => ({
+  [PROMPT_VARIANT_BLOCK]: message,
+});
+
+/**
+ * One-line summary of a profile for command responses.
+ */
+export const describeAgentProfile = (profile: AgentProfileFields): string => {
+  const parts = [
+    `persona \`${profile.promptVariant || DEFAULT_PROMPT_VARIANT}\``,
+    `model \`${profile.model || DEFAULT_MODEL}\``,
+    profile.tools?.length
+      ? `${profile.tools.length} of ${AGENT_TOOL_NAMES.length} tools`
+      : "all tools",
+    `${profile.maxSteps || DEFAULT_MAX_STEPS} steps`,
+    `memory ${MEMORY_SCOPE_LABELS[profile.memoryScope || "user"].toLowerCase()}`,
+  ];
+  return parts.join(", ");
+};
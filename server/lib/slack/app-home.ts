@@ -0,0 +1,59 @@
+import type { KnownBlock, WebClient } from "@slack/web-api";
+import { DocumentProcessor } from "~/lib/integrations/document-processor";
+import {
+  buildKnowledgeAdminBlocks,
+  isKnowledgeAdmin,
+} from "~/lib/slack/knowledge-admin";
+
+const documentProcessor = new DocumentProcessor();
+
+/**
+ * Publish the Home tab for a user. Knowledge base admins also get the
+ * knowledge base section; `notice` shows the outcome of their last action.
+ */
+export const publishAppHome = async ({
+  client,
+  userId,
+  notice,
+}: {
+  client: WebClient;
+  userId: string;
+  notice?: string;
+}) => {
+  const blocks: KnownBlock[] = [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*Welcome home, <@${userId}> :house:*`,
+      },
+    },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: "Learn how home tabs can be more useful and interactive <https://api.slack.com/surfaces/tabs/using|*in the documentation*>.",
+      },
+    },
+  ];
+
+  if (isKnowledgeAdmin(userId)) {
+    if (notice) {
+      blocks.push({
+        type: "context",
+        elements: [{ type: "mrkdwn", text: notice }],
+      });
+    }
+    blocks.push(
+      ...buildKnowledgeAdminBlocks(await documentProcessor.getRegistry()),
+    );
+  }
+
+  await client.views.publish({
+    user_id: userId,
+    view: {
+      type: "home",
+      blocks,
+    },
+  });
+};
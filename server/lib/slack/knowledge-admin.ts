@@ -0,0 +1,194 @@
+import type { Button, ContextBlock, KnownBlock } from "@slack/web-api";
+import type { KnowledgeRegistry } from "~/lib/integrations/document-processor";
+
+export const REINDEX_FILE_ACTION_ID = "knowledge_reindex_file";
+export const EXCLUDE_FILE_ACTION_ID = "knowledge_exclude_file";
+export const INCLUDE_FILE_ACTION_ID = "knowledge_include_file";
+
+// Home views are capped at 100 blocks; documents take two blocks each
+const MAX_DOCUMENTS = 20;
+const MAX_FAILURES = 10;
+const MAX_EXCLUSIONS = 10;
+
+/**
+ * Slack users allowed to see and manage the knowledge base from App Home,
+ * from the comma-separated KNOWLEDGE_ADMIN_USER_IDS. Nobody is an admin
+ * when it isn't set.
+ */
+export const isKnowledgeAdmin = (userId: string): boolean =>
+  (process.env.KNOWLEDGE_ADMIN_USER_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .includes(userId);
+
+const escapeMrkdwn = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const fileLabel = (file: {
+  fileName: string;
+  webViewLink?: string;
+  folderPath?: string;
+}) => {
+  const name = file.webViewLink
+    ? `<${file.webViewLink}|${escapeMrkdwn(file.fileName)}>`
+    : `*${escapeMrkdwn(file.fileName)}*`;
+  return file.folderPath ? `${name} · ${escapeMrkdwn(file.folderPath)}` : name;
+};
+
+// Rendered in the viewer's timezone by Slack
+const formatTime = (iso: string) => {
+  const seconds = Math.floor(new Date(iso).getTime() / 1000);
+  if (Number.isNaN(seconds)) return iso;
+  return `<!date^${seconds}^{date_short_pretty} {time}|${iso}>`;
+};
+
+const button = (
+  text: string,
+  actionId: string,
+  fileId: string,
+  style?: "primary" | "danger",
+): Button => ({
+  type: "button",
+  text: { type: "plain_text", text },
+  action_id: actionId,
+  value: fileId,
+  ...(style ? { style } : {}),
+});
+
+const moreNote = (shown: number, total: number): ContextBlock => ({
+  type: "context",
+  elements: [
+    {
+      type: "mrkdwn",
+      text: `Showing ${shown} of ${total}.`,
+    },
+  ],
+});
+
+/**
+ * App Home section listing what the knowledge base contains: indexed
+ * documents, files that failed to index and files excluded by an admin,
+ * with buttons to re-index or exclude individual files.
+ */
+export const buildKnowledgeAdminBlocks = (
+  registry: KnowledgeRegistry,
+): KnownBlock[] => {
+  const { documents, failures, exclusions, stats } = registry;
+  const totalChunks = documents.reduce(
+    (sum, record) => sum + record.chunkCount,
+    0,
+  );
+
+  const blocks: KnownBlock[] = [
+    { type: "divider" },
+    {
+      type: "header",
+      text: { type: "plain_text", text: "Knowledge base" },
+    },
+    {
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: [
+            `${documents.length} documents`,
+            `${totalChunks} chunks`,
+            `${failures.length} failed`,
+            `${exclusions.length} excluded`,
+            stats
+              ? `${stats.vectorCount} vectors (${stats.dimension} dimensions)`
+              : "vector store unavailable",
+          ].join(" · "),
+        },
+      ],
+    },
+  ];
+
+  if (failures.length > 0) {
+    blocks.push({
+      type: "section",
+      text: { type: "mrkdwn", text: "*:warning: Failed to index*" },
+    });
+    for (const failure of failures.slice(0, MAX_FAILURES)) {
+      blocks.push(
+        {
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: `${fileLabel(failure)}\n${escapeMrkdwn(failure.error)} · ${formatTime(failure.failedAt)}`,
+          },
+        },
+        {
+          type: "actions",
+          elements: [
+            button("Retry", REINDEX_FILE_ACTION_ID, failure.fileId, "primary"),
+            button("Exclude", EXCLUDE_FILE_ACTION_ID, failure.fileId, "danger"),
+          ],
+        },
+      );
+    }
+    if (failures.length > MAX_FAILURES) {
+      blocks.push(moreNote(MAX_FAILURES, failures.length));
+    }
+  }
+
+  blocks.push({
+    type: "section",
+    text: { type: "mrkdwn", text: "*Indexed documents*" },
+  });
+  if (documents.length === 0) {
+    blocks.push({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: "Nothing indexed yet. Ask me to refresh the knowledge base.",
+        },
+      ],
+    });
+  }
+  for (const record of documents.slice(0, MAX_DOCUMENTS)) {
+    blocks.push(
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `${fileLabel(record)}\n${record.chunkCount} chunks · ${record.namespace || "default"} · indexed ${formatTime(record.indexedAt)}`,
+        },
+      },
+      {
+        type: "actions",
+        elements: [
+          button("Re-index", REINDEX_FILE_ACTION_ID, record.fileId),
+          button("Exclude", EXCLUDE_FILE_ACTION_ID, record.fileId, "danger"),
+        ],
+      },
+    );
+  }
+  if (documents.length > MAX_DOCUMENTS) {
+    blocks.push(moreNote(MAX_DOCUMENTS, documents.length));
+  }
+
+  if (exclusions.length > 0) {
+    blocks.push({
+      type: "section",
+      text: { type: "mrkdwn", text: "*Excluded files*" },
+    });
+    for (const exclusion of exclusions.slice(0, MAX_EXCLUSIONS)) {
+      const by = exclusion.excludedBy ? ` by <@${exclusion.excludedBy}>` : "";
+      blocks.push({
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `${fileLabel(exclusion)}\nExcluded${by} ${formatTime(exclusion.excludedAt)}`,
+        },
+        accessory: button("Include", INCLUDE_FILE_ACTION_ID, exclusion.fileId),
+      });
+    }
+    if (exclusions.length > MAX_EXCLUSIONS) {
+      blocks.push(moreNote(MAX_EXCLUSIONS, exclusions.length));
+    }
+  }
+
+  return blocks;
+};
@@ -0,0 +1,346 @@
+import type { KnownBlock } from "@slack/web-api";
+
+// Slack limits: section text, header text and blocks per message
+const SECTION_TEXT_LIMIT = 3000;
+const HEADER_TEXT_LIMIT = 150;
+const MESSAGE_BLOCK_LIMIT = 50;
+// Slack recommends keeping the top-level text (notifications, fallback)
+// under 4,000 characters
+export const FALLBACK_TEXT_LIMIT = 4000;
+// Very long replies are easier to read as several messages, and Slack
+// rejects messages whose blocks add up to too much text
+const MESSAGE_TEXT_BUDGET = 12000;
+
+export interface SlackMessage {
+  text: string;
+  blocks: KnownBlock[];
+}
+
+type Piece =
+  | { type: "text"; text: string }
+  | { type: "header"; text: string }
+  | { type: "code"; text: string }
+  | { type: "divider" };
+
+// Code spans and Slack's own tokens (mentions, links) are passed through as-is
+const PROTECTED_PATTERN = /(`[^`\n]+`|<(?:[@#!]|https?:\/\/|mailto:)[^>\n]*>)/;
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE_PATTERN = /^\s{0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR_PATTERN =
+  /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+const BULLETS = ["•", "◦", "▪"];
+
+const escapeMrkdwn = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const convertSpan = (text: string) =>
+  escapeMrkdwn(text)
+    .replace(
+      /!?\[([^\]]+)\]\((\S+?)(?:\s+"[^"]*")?\)/g,
+      (_, label: string, url: string) => `<${url}|${label}>`,
+    )
+    // Italics first, so the asterisks bold turns into aren't read as italics
+    .replace(/(^|[^*\w])\*(?![\s*])([^*\n]+?)\*(?![*\w])/g, "$1_$2_")
+    .replace(
+      /\*\*(.+?)\*\*|__(.+?)__/g,
+      (_, star?: string, under?: string) => `*${star ?? under}*`,
+    )
+    .replace(/~~(.+?)~~/g, "~$1~");
+
+/**
+ * Convert inline markdown (bold, italics, strikethrough, links) to Slack
+ * mrkdwn, escaping everything else.
+ */
+export const convertInlineMarkdown = (text: string): string =>
+  text
+    .split(PROTECTED_PATTERN)
+    .map((part, index) => (index % 2 === 1 ? part : convertSpan(part)))
+    .join("");
+
+// Headers and table cells are plain text
+const stripInlineMarkdown = (text: string) =>
+  text
+    .replace(/!?\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|__|~~|`)/g, "")
+    .replace(/(^|\W)[*_](\S(?:.*?\S)?)[*_](?=\W|$)/g, "$1$2")
+    .trim();
+
+const splitTableRow = (line: string) =>
+  line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => stripInlineMarkdown(cell.replace(/\\\|/g, "|")));
+
+// Slack has no table block for messages, so tables become aligned monospace
+const renderTable = (lines: string[]) => {
+  const rows = lines
+    .filter((line) => !TABLE_SEPARATOR_PATTERN.test(line))
+    .map(splitTableRow);
+  const width = Math.max(...rows.map((row) => row.length));
+  const columnWidths = Array.from({ length: width }, (_, column) =>
+    Math.max(...rows.map((row) => (row[column] ?? "").length)),
+  );
+
+  const format = (row: string[]) =>
+    columnWidths
+      .map((columnWidth, column) => (row[column] ?? "").padEnd(columnWidth))
+      .join("  ")
+      .trimEnd();
+
+  const [header, ...body] = rows;
+  return [
+    format(header),
+    columnWidths.map((columnWidth) => "-".repeat(columnWidth)).join("  "),
+    ...body.map(format),
+  ].join("\n");
+};
+
+/**
+ * Walk the markdown line by line, turning block-level structure into
+ * pieces that map onto Block Kit blocks.
+ */
+const parseMarkdown = (markdown: string): Piece[] => {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const pieces: Piece[] = [];
+  const text: string[] = [];
+
+  const flushText = () => {
+    const joined = text.join("\n").trim();
+    if (joined) pieces.push({ type: "text", text: joined });
+    text.length = 0;
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const code: string[] = [];
+      index++;
+      while (
+        index < lines.length &&
+        !lines[index].trim().startsWith(fence[1])
+      ) {
+        code.push(lines[index]);
+        index++;
+      }
+      flushText();
+      pieces.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    if (
+      line.includes("|") &&
+      (lines[index + 1] ?? "").includes("|") &&
+      TABLE_SEPARATOR_PATTERN.test(lines[index + 1])
+    ) {
+      const table = [line];
+      while (index + 1 < lines.length && lines[index + 1].includes("|")) {
+        table.push(lines[++index]);
+      }
+      flushText();
+      pieces.push({ type: "code", text: renderTable(table) });
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      // Only top-level headings get a header block; the rest stay in the
+      // flow as bold lines
+      if (heading[1].length <= 2) {
+        flushText();
+        pieces.push({ type: "header", text: stripInlineMarkdown(heading[2]) });
+      } else {
+        text.push(`*${stripInlineMarkdown(escapeMrkdwn(heading[2]))}*`);
+      }
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      flushText();
+      pieces.push({ type: "divider" });
+      continue;
+    }
+
+    const item = line.match(LIST_PATTERN);
+    if (item) {
+      const depth = Math.min(
+        Math.floor(item[1].replace(/\t/g, "    ").length / 2),
+        BULLETS.length - 1,
+      );
+      const marker = /\d/.test(item[2])
+        ? `${item[2].replace(")", ".")}`
+        : BULLETS[depth];
+      text.push(
+        `${"    ".repeat(depth)}${marker} ${convertInlineMarkdown(item[3])}`,
+      );
+      continue;
+    }
+
+    const quote = line.match(QUOTE_PATTERN);
+    if (quote) {
+      text.push(`> ${convertInlineMarkdown(quote[1])}`);
+      continue;
+    }
+
+    text.push(convertInlineMarkdown(line));
+  }
+
+  flushText();
+  return pieces;
+};
+
+/**
+ * Split text into pieces of at most `limit` characters, preferring
+ * paragraph breaks, then line breaks, then spaces.
+ */
+const splitText = (text: string, limit: number): string[] => {
+  const parts: string[] = [];
+  let rest = text;
+
+  while (rest.length > limit) {
+    const window = rest.slice(0, limit);
+    const cut = [
+      window.lastIndexOf("\n\n"),
+      window.lastIndexOf("\n"),
+      window.lastIndexOf(" "),
+    ].find((position) => position > limit / 2);
+    const end = cut ?? limit;
+    parts.push(rest.slice(0, end).trimEnd());
+    rest = rest.slice(end).replace(/^\n+/, "").replace(/^ /, "");
+  }
+
+  if (rest.trim()) parts.push(rest);
+  return parts;
+};
+
+const toBlocks = (piece: Piece): KnownBlock[] => {
+  switch (piece.type) {
+    case "header":
+      return [
+        {
+          type: "header",
+          text: {
+            type: "plain_text",
+            text:
+              piece.text.length > HEADER_TEXT_LIMIT
+                ? `${piece.text.slice(0, HEADER_TEXT_LIMIT - 1)}…`
+                : piece.text || " ",
+            emoji: true,
+          },
+        },
+      ];
+    case "divider":
+      return [{ type: "divider" }];
+    case "code":
+      return splitText(escapeMrkdwn(piece.text), SECTION_TEXT_LIMIT - 8).map(
+        (code) => ({
+          type: "section",
+          text: { type: "mrkdwn", text: `\`\`\`\n${code}\n\`\`\`` },
+        }),
+      );
+    case "text":
+      return splitText(piece.text, SECTION_TEXT_LIMIT).map((text) => ({
+        type: "section",
+        text: { type: "mrkdwn", text },
+      }));
+  }
+};
+
+const blockText = (block: KnownBlock): string => {
+  switch (block.type) {
+    case "header":
+      return `*${block.text.text}*`;
+    case "section":
+      return block.text?.text ?? "";
+    case "context":
+      return block.elements
+        .map((element) => ("text" in element ? element.text : ""))
+        .join(" ");
+    default:
+      return "";
+  }
+};
+
+const truncate = (text: string, limit: number) =>
+  text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+
+/**
+ * Convert a markdown reply to Slack mrkdwn text, e.g. for message text
+ * that is shown without blocks.
+ */
+export const markdownToMrkdwn = (markdown: string): string =>
+  parseMarkdown(markdown)
+    .map((piece) => {
+      switch (piece.type) {
+        case "header":
+          return `*${escapeMrkdwn(piece.text)}*`;
+        case "code":
+          return `\`\`\`\n${escapeMrkdwn(piece.text)}\n\`\`\``;
+        case "divider":
+          return "―――";
+        default:
+          return piece.text;
+      }
+    })
+    .join("\n\n");
+
+/**
+ * Render a markdown reply (headings, lists, tables, links, code) as Block
+ * Kit, split into as many messages as Slack's limits require. `extraBlocks`
+ * (e.g. a sources footer) go at the end of the last message. Every message
+ * carries its own text fallback for notifications and clients that can't
+ * show blocks.
+ */
+export const renderMarkdownMessages = (
+  markdown: string,
+  extraBlocks: KnownBlock[] = [],
+): SlackMessage[] => {
+  const blocks = [...parseMarkdown(markdown).flatMap(toBlocks), ...extraBlocks];
+
+  const messages: SlackMessage[] = [];
+  let current: KnownBlock[] = [];
+  let currentLength = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    messages.push({
+      text: truncate(
+        current.map(blockText).filter(Boolean).join("\n\n"),
+        FALLBACK_TEXT_LIMIT,
+      ),
+      blocks: current,
+    });
+    current = [];
+    currentLength = 0;
+  };
+
+  for (const block of blocks) {
+    const length = blockText(block).length;
+    if (
+      current.length >= MESSAGE_BLOCK_LIMIT ||
+      (current.length > 0 && currentLength + length > MESSAGE_TEXT_BUDGET)
+    ) {
+      flush();
+    }
+    current.push(block);
+    currentLength += length;
+  }
+  flush();
+
+  // Slack needs something to post even for an empty reply
+  if (messages.length === 0) {
+    messages.push({
+      text: markdown.trim() || "…",
+      blocks: [],
+    });
+  }
+
+  return messages;
+};
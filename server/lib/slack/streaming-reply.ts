@@ -0,0 +1,122 @@
+import type { WebClient } from "@slack/web-api";
+import { app } from "~/app";
+import {
+  FALLBACK_TEXT_LIMIT,
+  markdownToMrkdwn,
+  type SlackMessage,
+} from "~/lib/slack/markdown-blocks";
+
+// chat.update is rate limited (Tier 3, roughly 50 calls a minute), so text
+// arriving faster than this is batched into one update
+const UPDATE_INTERVAL_MS = 1500;
+
+const PLACEHOLDER_TEXT = "_Thinking…_";
+
+export interface StreamingReply {
+  /**
+   * Show the markdown reply so far. Updates are throttled; only the latest
+   * text is sent.
+   */
+  update: (markdown: string) => void;
+  /**
+   * Replace the streamed text with the final reply. The first message takes
+   * the placeholder's place, the rest are posted after it in the thread.
+   */
+  finish: (
+    messages: Array<Partial<SlackMessage> & { text: string }>,
+  ) => Promise<void>;
+}
+
+/**
+ * Post a placeholder reply that is edited in place as the agent's answer
+ * streams in, so users see progress instead of waiting for every tool step
+ * to finish.
+ */
+export const startStreamingReply = async ({
+  client,
+  channel,
+  thread_ts,
+}: {
+  client: WebClient;
+  channel: string;
+  thread_ts: string;
+}): Promise<StreamingReply> => {
+  const { ts } = await client.chat.postMessage({
+    channel,
+    thread_ts,
+    text: PLACEHOLDER_TEXT,
+  });
+  if (!ts) {
+    throw new Error("Slack did not return a timestamp for the reply");
+  }
+
+  let latest = "";
+  let shown = "";
+  let lastUpdateAt = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let finished = false;
+  // Updates are sent one at a time so they can't land out of order
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const flush = () => {
+    timer = undefined;
+    if (finished || latest === shown) return;
+
+    const text = latest;
+    shown = text;
+    // Long replies show their beginning until the final messages replace them
+    const mrkdwn = markdownToMrkdwn(text);
+    lastUpdateAt = Date.now();
+    pending = pending
+      .then(() =>
+        client.chat.update({
+          channel,
+          ts,
+          text:
+            mrkdwn.length > FALLBACK_TEXT_LIMIT
+              ? `${mrkdwn.slice(0, FALLBACK_TEXT_LIMIT - 2)} …`
+              : mrkdwn,
+        }),
+      )
+      .catch((error) => {
+        app.logger.warn("Failed to update streaming reply", {
+          channel,
+          ts,
+          error,
+        });
+      });
+  };
+
+  return {
+    update: (markdown) => {
+      if (finished || !markdown.trim()) return;
+      latest = markdown;
+      if (!timer) {
+        timer = setTimeout(
+          flush,
+          Math.max(0, lastUpdateAt + UPDATE_INTERVAL_MS - Date.now()),
+        );
+      }
+    },
+    finish: async ([first, ...rest]) => {
+      finished = true;
+      clearTimeout(timer);
+      await pending;
+
+      await client.chat.update({
+        channel,
+        ts,
+        text: first.text,
+        blocks: first.blocks?.length ? first.blocks : undefined,
+      });
+      for (const message of rest) {
+        await client.chat.postMessage({
+          channel,
+          thread_ts,
+          text: message.text,
+          blocks: message.blocks,
+        });
+      }
+    },
+  };
+};
@@ -121,6 +121,41 @@ export const getChannelContextAsModelMessage = async (
   });
 };
 
+// Channels rarely change between internal and shared, but sharing a
+// channel must narrow what the bot searches soon after, so lookups are only
+// reused for a few minutes
+const EXTERNAL_CHANNEL_TTL_MS = 5 * 60 * 1000;
+const externalChannelCache = new Map<
+  string,
+  { external: boolean; checkedAt: number }
+>();
+
+/**
+ * Whether a conversation includes people outside the workspace: Slack
+ * Connect channels and DMs, including ones with a pending invite. Fails
+ * closed, so a failed lookup counts as external.
+ */
+export const isExternalChannel = async (channel: string): Promise<boolean> => {
+  const cached = externalChannelCache.get(channel);
+  if (cached && Date.now() - cached.checkedAt < EXTERNAL_CHANNEL_TTL_MS) {
+    return cached.external;
+  }
+
+  try {
+    const { channel: info } = await app.client.conversations.info({ channel });
+    const external = Boolean(
+      info?.is_ext_shared || info?.is_pending_ext_shared,
+    );
+    externalChannelCache.set(channel, { external, checkedAt: Date.now() });
+    return external;
+  } catch (error) {
+    app.logger.warn("Failed to look up channel sharing, treating as external", {
+      channel,
+      error,
+    });
+    return true;
+  }
+};
 
 export const addReaction = async ({
   channel,
@@ -1,9 +1,20 @@
 import type { App } from "@slack/bolt";
-
+import { SHOW_MORE_ACTION_ID } from "~/lib/sage/product-search";
+import {
+  EXCLUDE_FILE_ACTION_ID,
+  INCLUDE_FILE_ACTION_ID,
+  REINDEX_FILE_ACTION_ID,
+} from "~/lib/slack/knowledge-admin";
+import knowledgeAdminCallback from "./knowledge-admin";
+import sageSearchNextPageCallback from "./sage-search-next-page";
 import sampleActionCallback from "./sample-action";
 
 const register = (app: App) => {
   app.action("sample_action_id", sampleActionCallback);
+  app.action(SHOW_MORE_ACTION_ID, sageSearchNextPageCallback);
+  app.action(REINDEX_FILE_ACTION_ID, knowledgeAdminCallback);
+  app.action(EXCLUDE_FILE_ACTION_ID, knowledgeAdminCallback);
+  app.action(INCLUDE_FILE_ACTION_ID, knowledgeAdminCallback);
 };
 
 export default { register };
@@ -0,0 +1,75 @@
+import type {
+  AllMiddlewareArgs,
+  BlockAction,
+  ButtonAction,
+  SlackActionMiddlewareArgs,
+} from "@slack/bolt";
+import { DocumentProcessor } from "~/lib/integrations/document-processor";
+import { publishAppHome } from "~/lib/slack/app-home";
+import {
+  EXCLUDE_FILE_ACTION_ID,
+  INCLUDE_FILE_ACTION_ID,
+  isKnowledgeAdmin,
+  REINDEX_FILE_ACTION_ID,
+} from "~/lib/slack/knowledge-admin";
+
+const documentProcessor = new DocumentProcessor();
+
+/**
+ * Re-index, exclude and include buttons in the App Home knowledge base
+ * section. The outcome is shown at the top of the republished Home tab.
+ */
+const knowledgeAdminCallback = async ({
+  ack,
+  action,
+  body,
+  client,
+  logger,
+}: AllMiddlewareArgs &
+  SlackActionMiddlewareArgs<BlockAction<ButtonAction>>) => {
+  await ack();
+
+  const userId = body.user.id;
+  const fileId = action.value;
+  if (!isKnowledgeAdmin(userId) || !fileId) {
+    logger.warn(`Ignoring ${action.action_id} from ${userId}`);
+    return;
+  }
+
+  let notice: string;
+  try {
+    switch (action.action_id) {
+      case REINDEX_FILE_ACTION_ID: {
+        const result = await documentProcessor.reindexFile(fileId);
+        notice = result.success
+          ? `:white_check_mark: Re-indexed into ${result.totalChunks} chunks.`
+          : `:x: Re-index failed: ${result.errors[0]?.error ?? "unknown error"}`;
+        break;
+      }
+      case EXCLUDE_FILE_ACTION_ID:
+        await documentProcessor.excludeFile(fileId, userId);
+        notice = ":no_entry_sign: Excluded from the knowledge base.";
+        break;
+      case INCLUDE_FILE_ACTION_ID: {
+        const result = await documentProcessor.includeFile(fileId);
+        notice = result.success
+          ? `:white_check_mark: Included and indexed into ${result.totalChunks} chunks.`
+          : `:x: Included, but indexing failed: ${result.errors[0]?.error ?? "unknown error"}`;
+        break;
+      }
+      default:
+        return;
+    }
+  } catch (error) {
+    logger.error(`${action.action_id} failed for ${fileId}:`, error);
+    notice = `:x: ${error instanceof Error ? error.message : "Something went wrong."}`;
+  }
+
+  try {
+    await publishAppHome({ client, userId, notice });
+  } catch (error) {
+    logger.error("Failed to republish App Home:", error);
+  }
+};
+
+export default knowledgeAdminCallback;
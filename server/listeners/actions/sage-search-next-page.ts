@@ -0,0 +1,110 @@
+import type {
+  AllMiddlewareArgs,
+  BlockAction,
+  ButtonAction,
+  SlackActionMiddlewareArgs,
+} from "@slack/bolt";
+import { getSageClient } from "~/lib/ai/tools/sage-connect";
+import {
+  buildProductSearchBlocks,
+  decodeShowMoreValue,
+  getProductSearch,
+  SEARCH_PAGE_SIZE,
+  SHOW_MORE_ACTION_ID,
+} from "~/lib/sage/product-search";
+
+const sageSearchNextPageCallback = async ({
+  ack,
+  action,
+  body,
+  client,
+  logger,
+}: AllMiddlewareArgs &
+  SlackActionMiddlewareArgs<BlockAction<ButtonAction>>) => {
+  await ack();
+
+  const channel = body.channel?.id;
+  const message = body.message;
+  if (!channel || !message) {
+    logger.warn("Show more action received without a channel message");
+    return;
+  }
+
+  const thread_ts = message.thread_ts || message.ts;
+
+  try {
+    const { searchId, offset } = decodeShowMoreValue(action.value ?? "");
+    const search = await getProductSearch(searchId);
+
+    if (!search) {
+      await client.chat.postEphemeral({
+        channel,
+        user: body.user.id,
+        thread_ts,
+        text: "That search has expired. Ask me to run the search again to see more results.",
+      });
+      return;
+    }
+
+    const results = await getSageClient().searchProducts({
+      ...search.request,
+      resultOptions: {
+        ...search.request.resultOptions,
+        limit: SEARCH_PAGE_SIZE,
+        offset,
+      },
+    });
+
+    // Remove the button that was clicked so the same page isn't requested
+    // twice. Only once the page was fetched, so a failed search can be retried
+    await client.chat.update({
+      channel,
+      ts: message.ts,
+      text: message.text ?? "Search results",
+      blocks: (message.blocks ?? []).filter(
+        (block: { type: string; elements?: Array<{ action_id?: string }> }) =>
+          !(
+            block.type === "actions" &&
+            block.elements?.some(
+              (element) => element.action_id === SHOW_MORE_ACTION_ID,
+            )
+          ),
+      ),
+    });
+
+    if (results.products.length === 0) {
+      await client.chat.postMessage({
+        channel,
+        thread_ts,
+        text: "No more products found for this search.",
+      });
+      return;
+    }
+
+    await client.chat.postMessage({
+      channel,
+      thread_ts,
+      text: `Found ${results.totalFound} promotional products. Showing results ${offset + 1}-${offset + Math.min(results.products.length, SEARCH_PAGE_SIZE)}.`,
+      blocks: buildProductSearchBlocks(results, {
+        searchTerms: search.searchTerms,
+        priceRange: search.priceRange,
+        offset,
+        searchId: search.id,
+      }),
+    });
+  } catch (error) {
+    logger.error("Show more search results failed:", error);
+    try {
+      await client.chat.postEphemeral({
+        channel,
+        user: body.user.id,
+        thread_ts,
+        text: "Sorry, I couldn't load more results. Please try again.",
+      });
+    } catch (respondError) {
+      logger.error("Also failed to send error response:", respondError);
+    }
+  }
+};
+
+export default sageSearchNextPageCallback;
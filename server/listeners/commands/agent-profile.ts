@@ -0,0 +1,89 @@
+import type {
+  AllMiddlewareArgs,
+  SlackCommandMiddlewareArgs,
+} from "@slack/bolt";
+import {
+  deleteAgentProfile,
+  getAgentProfile,
+  getProfileKey,
+} from "~/lib/ai/agent-profiles";
+import {
+  AGENT_PROFILE_COMMAND,
+  buildAgentProfileModal,
+  describeAgentProfile,
+  describeProfileKey,
+  isAgentProfileAdmin,
+} from "~/lib/slack/agent-profile-modal";
+
+/**
+ * `/agent-profile` opens the profile editor for the current channel (or for
+ * all DMs, when run in a DM with the bot). `/agent-profile show` prints the
+ * profile and `/agent-profile reset` clears it.
+ */
+export const agentProfileCommandCallback = async ({
+  ack,
+  command,
+  client,
+  respond,
+  logger,
+}: AllMiddlewareArgs & SlackCommandMiddlewareArgs) => {
+  try {
+    await ack();
+
+    const { channel_id: channel, user_id: userId, trigger_id } = command;
+    const key = getProfileKey({
+      channel,
+      isDirectMessage: channel.startsWith("D"),
+    });
+    const subcommand = command.text.trim().toLowerCase();
+
+    if (subcommand === "show") {
+      const profile = await getAgentProfile(key);
+      await respond({
+        text: profile
+          ? `Agent profile for ${describeProfileKey(key)}: ${describeAgentProfile(profile)}.`
+          : `${describeProfileKey(key)} uses the default agent profile.`,
+        response_type: "ephemeral",
+      });
+      return;
+    }
+
+    if (!isAgentProfileAdmin(userId)) {
+      await respond({
+        text: `Only agent profile admins can change how the bot behaves here. Try \`${AGENT_PROFILE_COMMAND} show\` to see the current profile.`,
+        response_type: "ephemeral",
+      });
+      return;
+    }
+
+    if (subcommand === "reset") {
+      const deleted = await deleteAgentProfile(key);
+      await respond({
+        text: deleted
+          ? `Cleared the agent profile for ${describeProfileKey(key)}; it uses the defaults again.`
+          : `${describeProfileKey(key)} already uses the default agent profile.`,
+        response_type: "ephemeral",
+      });
+      return;
+    }
+
+    await client.views.open({
+      trigger_id,
+      view: buildAgentProfileModal({
+        key,
+        channel,
+        profile: await getAgentProfile(key),
+      }),
+    });
+  } catch (error) {
+    logger.error("Agent profile command failed:", error);
+    try {
+      await respond({
+        text: "Sorry, something went wrong handling that command.",
+        response_type: "ephemeral",
+      });
+    } catch (respondError) {
+      logger.error("Also failed to send error response:", respondError);
+    }
+  }
+};
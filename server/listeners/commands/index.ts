@@ -1,8 +1,11 @@
 import type { App } from "@slack/bolt";
+import { AGENT_PROFILE_COMMAND } from "~/lib/slack/agent-profile-modal";
+import { agentProfileCommandCallback } from "./agent-profile";
 import { sampleCommandCallback } from "./sample-command";
 
 const register = (app: App) => {
   app.command("/sample-command", sampleCommandCallback);
+  app.command(AGENT_PROFILE_COMMAND, agentProfileCommandCallback);
 };
 
 export default { register };
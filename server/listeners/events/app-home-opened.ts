@@ -1,4 +1,5 @@
 import type { AllMiddlewareArgs, SlackEventMiddlewareArgs } from "@slack/bolt";
+import { publishAppHome } from "~/lib/slack/app-home";
 
 const appHomeOpenedCallback = async ({
   client,
@@ -9,28 +10,7 @@ const appHomeOpenedCallback = async ({
   if (event.tab !== "home") return;
 
   try {
-    await client.views.publish({
-      user_id: event.user,
-      view: {
-        type: "home",
-        blocks: [
-          {
-            type: "section",
-            text: {
-              type: "mrkdwn",
-              text: `*Welcome home, <@${event.user}> :house:*`,
-            },
-          },
-          {
-            type: "section",
-            text: {
-              type: "mrkdwn",
-              text: "Learn how home tabs can be more useful and interactive <https://api.slack.com/surfaces/tabs/using|*in the documentation*>.",
-            },
-          },
-        ],
-      },
-    });
+    await publishAppHome({ client, userId: event.user });
   } catch (error) {
     logger.error("app_home_opened handler failed:", error);
   }
@@ -1,6 +1,12 @@
 import type { AllMiddlewareArgs, SlackEventMiddlewareArgs } from "@slack/bolt";
 import type { ModelMessage } from "ai";
+import { resolveAgentProfile } from "~/lib/ai/agent-profiles";
+import { postArtifacts } from "~/lib/ai/artifacts";
 import { respondToMessage } from "~/lib/ai/respond-to-message";
+import {
+  type StreamingReply,
+  startStreamingReply,
+} from "~/lib/slack/streaming-reply";
 import {
   getThreadContextAsModelMessage,
   updateAgentStatus,
@@ -8,12 +14,14 @@ import {
 } from "~/lib/slack/utils";
 
 const appMentionCallback = async ({
+  client,
   event,
   say,
   logger,
   context,
 }: AllMiddlewareArgs & SlackEventMiddlewareArgs<"app_mention">) => {
   const { channel, thread_ts, ts, user } = event;
+  let reply: StreamingReply | undefined;
 
   try {
     await MessageState.setProcessing({
@@ -42,27 +50,34 @@ const appMentionCallback = async ({
       ];
     }
 
+    reply = await startStreamingReply({
+      client,
+      channel,
+      thread_ts: event.thread_ts || event.ts,
+    });
+
+    const profile = await resolveAgentProfile({ channel });
+
     const response = await respondToMessage({
       messages,
       channel,
-      thread_ts,
+      // Tools that post back later (restock watches) need the thread the
+      // reply went to, which for a top-level mention starts at the mention
+      thread_ts: thread_ts || ts,
       botId: context.botId,
       userId: user,
+      teamId: context.teamId,
+      profile,
+      onText: reply.update,
     });
 
-    await say({
-      blocks: [
-        {
-          type: "section",
-          text: {
-            type: "mrkdwn",
-            text: response,
-          },
-        },
-      ],
-      // It's important to keep the text property as a fallback for improper markdown
-      text: response,
+    // Each message keeps a text fallback for notifications and improper markdown
+    await reply.finish(response.messages);
+    await postArtifacts({
+      client,
+      channel,
       thread_ts: event.thread_ts || event.ts,
+      artifacts: response.artifacts,
     });
 
     // Set completed state
@@ -83,8 +98,21 @@ const appMentionCallback = async ({
       logger.warn("Failed to set error reaction:", reactionError);
     }
     
+    const errorText =
+      "Sorry, something went wrong processing your message. Please try again.";
+
+    // Replace whatever was streamed so far rather than leaving it half-written
+    if (reply) {
+      try {
+        await reply.finish([{ text: errorText }]);
+        return;
+      } catch (updateError) {
+        logger.warn("Failed to update reply with error:", updateError);
+      }
+    }
+
     await say({
-      text: "Sorry, something went wrong processing your message. Please try again.",
+      text: errorText,
       thread_ts: event.thread_ts || event.ts,
     });
   }
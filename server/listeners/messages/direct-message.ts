@@ -1,12 +1,19 @@
 import type { AllMiddlewareArgs, SlackEventMiddlewareArgs } from "@slack/bolt";
 import type { ModelMessage } from "ai";
+import { resolveAgentProfile } from "~/lib/ai/agent-profiles";
+import { postArtifacts } from "~/lib/ai/artifacts";
 import { respondToMessage } from "~/lib/ai/respond-to-message";
+import {
+  type StreamingReply,
+  startStreamingReply,
+} from "~/lib/slack/streaming-reply";
 import {
   getThreadContextAsModelMessage,
   updateAgentStatus,
 } from "~/lib/slack/utils";
 
 export const directMessageCallback = async ({
+  client,
   message,
   say,
   logger,
@@ -19,6 +26,7 @@ export const directMessageCallback = async ({
   if (!text) return;
 
   let messages: ModelMessage[] = [];
+  let reply: StreamingReply | undefined;
   try {
     if (thread_ts) {
       updateAgentStatus({
@@ -40,32 +48,53 @@ export const directMessageCallback = async ({
       ];
     }
 
+    reply = await startStreamingReply({
+      client,
+      channel,
+      thread_ts: thread_ts || message.ts,
+    });
+
+    const profile = await resolveAgentProfile({
+      channel,
+      isDirectMessage: true,
+    });
+
     const response = await respondToMessage({
       messages,
       channel,
       thread_ts,
       botId,
       userId: user,
+      teamId: context.teamId,
       isDirectMessage: true,
+      profile,
+      onText: reply.update,
     });
 
-    await say({
-      blocks: [
-        {
-          type: "section",
-          text: {
-            type: "mrkdwn",
-            text: response,
-          },
-        },
-      ],
-      text: response,
+    await reply.finish(response.messages);
+    await postArtifacts({
+      client,
+      channel,
       thread_ts: thread_ts || message.ts,
+      artifacts: response.artifacts,
     });
   } catch (error) {
     logger.error("DM handler failed:", error);
+    const errorText =
+      "Sorry, something went wrong processing your message. Please try again.";
+
+    // Replace whatever was streamed so far rather than leaving it half-written
+    if (reply) {
+      try {
+        await reply.finish([{ text: errorText }]);
+        return;
+      } catch (updateError) {
+        logger.warn("Failed to update reply with error:", updateError);
+      }
+    }
+
     await say({
-      text: "Sorry, something went wrong processing your message. Please try again.",
+      text: errorText,
       thread_ts: thread_ts || message.ts,
     });
   }
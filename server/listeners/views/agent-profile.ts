@@ -0,0 +1,93 @@
+import type { AllMiddlewareArgs, SlackViewMiddlewareArgs } from "@slack/bolt";
+import { deleteAgentProfile, saveAgentProfile } from "~/lib/ai/agent-profiles";
+import { loadPromptTemplate } from "~/lib/ai/prompts";
+import {
+  describeAgentProfile,
+  describeProfileKey,
+  isAgentProfileAdmin,
+  parseAgentProfileSubmission,
+  promptVariantError,
+} from "~/lib/slack/agent-profile-modal";
+
+/**
+ * Save the agent profile modal. Invalid values are shown on their fields
+ * and keep the modal open; an all-empty profile is removed.
+ */
+const agentProfileViewCallback = async ({
+  ack,
+  view,
+  body,
+  client,
+  logger,
+}: AllMiddlewareArgs & SlackViewMiddlewareArgs) => {
+  const userId = body.user.id;
+  const { key, channel } = JSON.parse(view.private_metadata) as {
+    key: string;
+    channel: string;
+  };
+
+  if (!isAgentProfileAdmin(userId)) {
+    logger.warn(`Ignoring agent profile change for ${key} from ${userId}`);
+    await ack();
+    return;
+  }
+
+  const submission = parseAgentProfileSubmission(view.state.values);
+  // Compared to false explicitly: without strictNullChecks, a truthiness
+  // check doesn't narrow the union
+  if (submission.ok === false) {
+    await ack({ response_action: "errors", errors: submission.errors });
+    return;
+  }
+
+  const { fields } = submission;
+  if (fields.promptVariant) {
+    try {
+      await loadPromptTemplate(fields.promptVariant);
+    } catch (error) {
+      await ack({
+        response_action: "errors",
+        errors: promptVariantError(
+          error instanceof Error ? error.message : "Unknown prompt variant",
+        ),
+      });
+      return;
+    }
+  }
+
+  await ack();
+
+  try {
+    const isEmpty = Object.values(fields).every((value) => value === undefined);
+    if (isEmpty) {
+      await deleteAgentProfile(key);
+    } else {
+      await saveAgentProfile({
+        key,
+        ...fields,
+        updatedBy: userId,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+    logger.info(`Agent profile for ${key} updated by ${userId}`);
+
+    await client.chat.postEphemeral({
+      channel,
+      user: userId,
+      text: `Saved the agent profile for ${describeProfileKey(key)}: ${describeAgentProfile(fields)}.`,
+    });
+  } catch (error) {
+    logger.error("Agent profile submission failed:", error);
+    try {
+      await client.chat.postEphemeral({
+        channel,
+        user: userId,
+        text: "Sorry, something went wrong saving the agent profile.",
+      });
+    } catch (notifyError) {
+      logger.error("Also failed to notify user of error:", notifyError);
+    }
+  }
+};
+
+export default agentProfileViewCallback;
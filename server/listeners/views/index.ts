@@ -1,8 +1,11 @@
 import type { App } from "@slack/bolt";
+import { AGENT_PROFILE_VIEW_ID } from "~/lib/slack/agent-profile-modal";
+import agentProfileViewCallback from "./agent-profile";
 import sampleViewCallback from "./sample-view";
 
 const register = (app: App) => {
   app.view("sample_view_id", sampleViewCallback);
+  app.view(AGENT_PROFILE_VIEW_ID, agentProfileViewCallback);
 };
 
 export default { register };
@@ -0,0 +1,96 @@
+import { app } from "~/app";
+import { SageConnectClient } from "~/lib/integrations/sage-connect";
+import { notifySageBudgetThreshold } from "~/lib/sage/budget-alerts";
+import {
+  deleteInventoryWatch,
+  getWatchedAvailability,
+  type InventoryWatch,
+  isWatchExpired,
+  listInventoryWatches,
+  updateInventoryWatch,
+} from "~/lib/sage/inventory-watches";
+
+const postToWatchThread = async (watch: InventoryWatch, text: string) => {
+  await app.client.chat.postMessage({
+    channel: watch.channel,
+    thread_ts: watch.thread_ts,
+    text,
+  });
+};
+
+const describeWatch = (watch: InventoryWatch) =>
+  watch.sku
+    ? `product ${watch.productId} (SKU ${watch.sku})`
+    : `product ${watch.productId}`;
+
+export default defineTask({
+  meta: {
+    name: "inventory:poll-watches",
+    description:
+      "Re-check Sage inventory for restock watches and notify Slack threads",
+  },
+  async run() {
+    const watches = await listInventoryWatches();
+    if (watches.length === 0) {
+      return { result: { checked: 0, notified: 0, expired: 0 } };
+    }
+
+    const client = SageConnectClient.fromEnvironment({
+      onBudgetThreshold: notifySageBudgetThreshold,
+    });
+    let checked = 0;
+    let notified = 0;
+    let expired = 0;
+
+    for (const watch of watches) {
+      try {
+        if (isWatchExpired(watch)) {
+          await postToWatchThread(
+            watch,
+            `:hourglass: The restock watch \`${watch.id}\` for ${describeWatch(watch)} has expired without reaching ${watch.threshold} available units.`,
+          );
+          await deleteInventoryWatch(watch.id);
+          expired++;
+          continue;
+        }
+
+        const inventory = await client.checkInventory(watch.productId);
+        const available = getWatchedAvailability(watch, inventory);
+        checked++;
+
+        // Without a previous level (the check at creation failed) there is
+        // no crossing to detect yet; this poll only records the baseline
+        const wasBelow =
+          watch.lastAvailable !== undefined &&
+          watch.lastAvailable < watch.threshold;
+
+        if (available >= watch.threshold && wasBelow) {
+          const mention = watch.userId ? `<@${watch.userId}> ` : "";
+          await postToWatchThread(
+            watch,
+            `${mention}:package: *Back in stock:* ${describeWatch(watch)} now has ${available.toLocaleString()} units available (threshold ${watch.threshold.toLocaleString()}). Restock watch \`${watch.id}\` is now closed.`,
+          );
+          await deleteInventoryWatch(watch.id);
+          notified++;
+          continue;
+        }
+
+        await updateInventoryWatch({
+          ...watch,
+          lastAvailable: available,
+          lastCheckedAt: new Date().toISOString(),
+        });
+      } catch (error) {
+        app.logger.error(`Restock watch ${watch.id} check failed:`, error);
+      }
+    }
+
+    app.logger.info("Restock watch poll complete:", {
+      checked,
+      notified,
+      expired,
+    });
+
+    return { result: { checked, notified, expired } };
+  },
+});
@@ -0,0 +1,25 @@
+import { app } from "~/app";
+import { ensureDriveWatch } from "~/lib/integrations/drive-watch";
+
+export default defineTask({
+  meta: {
+    name: "knowledge:renew-drive-watch",
+    description:
+      "Create or renew the Google Drive changes.watch channel before it expires",
+  },
+  async run({ payload }) {
+    const renewal = await ensureDriveWatch({ force: Boolean(payload?.force) });
+
+    if (renewal.status === "disabled") {
+      app.logger.debug(
+        "GOOGLE_DRIVE_WEBHOOK_URL is not set, skipping Drive watch renewal",
+      );
+    } else if (renewal.status !== "active") {
+      app.logger.info(
+        `Drive watch ${renewal.status}, expires ${new Date(renewal.expiration).toISOString()}`,
+      );
+    }
+
+    return { result: renewal };
+  },
+});
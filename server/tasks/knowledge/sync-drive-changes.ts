@@ -0,0 +1,50 @@
+import { app } from "~/app";
+import { DocumentProcessor } from "~/lib/integrations/document-processor";
+import { DriveWatchStore } from "~/lib/integrations/drive-watch";
+
+// Notifications that arrive mid-sync trigger another pass, up to this many
+const MAX_PASSES = 5;
+
+export default defineTask({
+  meta: {
+    name: "knowledge:sync-drive-changes",
+    description:
+      "Re-index Drive files changed since the last sync, as reported by changes.list",
+  },
+  async run() {
+    const store = new DriveWatchStore();
+    if (!(await store.get())) {
+      return { result: { passes: 0 } };
+    }
+
+    const processor = new DocumentProcessor();
+    const totals = { passes: 0, added: 0, updated: 0, removed: 0, failed: 0 };
+
+    // Everything up to now is covered by the first pass
+    await store.takePending();
+
+    do {
+      const watch = await store.get();
+      if (!watch) break;
+
+      const { result, nextPageToken } = await processor.syncDriveChanges(
+        watch.pageToken,
+      );
+      await store.setPageToken(nextPageToken);
+
+      totals.passes++;
+      totals.added += result.added;
+      totals.updated += result.updated;
+      totals.removed += result.removed;
+      totals.failed += result.failedFiles;
+
+      for (const { fileName, error } of result.errors) {
+        app.logger.warn(`Drive change sync failed for ${fileName}: ${error}`);
+      }
+    } while (totals.passes < MAX_PASSES && (await store.takePending()));
+
+    app.logger.info("Drive change sync complete:", totals);
+
+    return { result: totals };
+  },
+});
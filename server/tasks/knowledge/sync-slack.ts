@@ -0,0 +1,42 @@
+import { app } from "~/app";
+import { DocumentProcessor } from "~/lib/integrations/document-processor";
+import { getNamespaceChannels } from "~/lib/integrations/knowledge-namespaces";
+
+export default defineTask({
+  meta: {
+    name: "knowledge:sync-slack",
+    description:
+      "Re-index canvases and pinned messages in the channels listed in KNOWLEDGE_SLACK_CHANNELS",
+  },
+  async run() {
+    const totals = {
+      skipped: false,
+      added: 0,
+      updated: 0,
+      unchanged: 0,
+      removed: 0,
+      failed: 0,
+    };
+
+    if (getNamespaceChannels().length === 0) {
+      return { result: { ...totals, skipped: true } };
+    }
+
+    const result = await new DocumentProcessor().processSlackChannels();
+
+    for (const { fileName, error } of result.errors) {
+      app.logger.warn(`Slack knowledge sync failed for ${fileName}: ${error}`);
+    }
+
+    return {
+      result: {
+        ...totals,
+        added: result.added,
+        updated: result.updated,
+        unchanged: result.unchanged,
+        removed: result.removed,
+        failed: result.failedFiles,
+      },
+    };
+  },
+});
@@ -0,0 +1,17 @@
+import type { H3Event } from "h3";
+
+/**
+ * Guard for admin-only routes. Requires `Authorization: Bearer <ADMIN_API_TOKEN>`
+ * and rejects every request when the token is not configured.
+ */
+export const requireAdminToken = (event: H3Event) => {
+  const expected = process.env.ADMIN_API_TOKEN;
+  const provided = getRequestHeader(event, "authorization")?.replace(
+    /^Bearer\s+/i,
+    "",
+  );
+
+  if (!expected || provided !== expected) {
+    throw createError({ statusCode: 401, statusMessage: "Unauthorized" });
+  }
+};
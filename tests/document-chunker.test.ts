@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  chunkDocument,
+  estimateTokens,
+} from "../server/lib/integrations/document-chunker";
+
+const sentence = (n: number) =>
+  `Sentence ${n} explains one detail of the product in plain words.`;
+
+describe("chunkDocument", () => {
+  it("records the heading path each chunk sits under", () => {
+    const content = [
+      "# Catalog",
+      "Intro to the catalog.",
+      "## Bags",
+      "Totes and backpacks.",
+      "### Totes",
+      "Canvas totes.",
+      "## Drinkware",
+      "Mugs and bottles.",
+    ].join("\n\n");
+
+    const chunks = chunkDocument(content);
+
+    assert.deepEqual(
+      chunks.map((chunk) => chunk.headingPath),
+      [
+        ["Catalog"],
+        ["Catalog", "Bags"],
+        ["Catalog", "Bags", "Totes"],
+        ["Catalog", "Drinkware"],
+      ],
+    );
+    assert.equal(chunks[2].content, "### Totes\n\nCanvas totes.");
+    for (const chunk of chunks) {
+      assert.equal(
+        content.slice(chunk.startChar, chunk.endChar).trim(),
+        chunk.content,
+      );
+    }
+  });
+
+  it("packs sections together when not splitting on headings", () => {
+    const chunks = chunkDocument(
+      "# One\n\nFirst section.\n\n# Two\n\nSecond section.",
+      { splitOnHeadings: false },
+    );
+
+    assert.equal(chunks.length, 1);
+    assert.deepEqual(chunks[0].headingPath, ["One"]);
+    assert.match(chunks[0].content, /First section\.[\s\S]*Second section\./);
+  });
+
+  it("splits oversized paragraphs by sentence with overlap", () => {
+    const paragraph = Array.from({ length: 12 }, (_, i) => sentence(i)).join(
+      " ",
+    );
+
+    const chunks = chunkDocument(`# Notes\n\n${paragraph}`, {
+      maxTokens: 60,
+      overlapTokens: 20,
+    });
+
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(estimateTokens(chunk.content) <= 60, chunk.content);
+      assert.deepEqual(chunk.headingPath, ["Notes"]);
+    }
+    // Every sentence survives, and each later chunk starts with the tail of
+    // the previous one
+    for (let i = 0; i < 12; i++) {
+      assert.ok(chunks.some((chunk) => chunk.content.includes(sentence(i))));
+    }
+    for (let i = 1; i < chunks.length; i++) {
+      const firstSentence = chunks[i].content.split(/(?<=\.) /)[0];
+      assert.ok(chunks[i - 1].content.endsWith(firstSentence));
+    }
+  });
+
+  it("hard-splits a single sentence longer than the budget", () => {
+    const words = Array.from({ length: 200 }, (_, i) => `word${i}`).join(" ");
+
+    const chunks = chunkDocument(words, { maxTokens: 50, overlapTokens: 0 });
+
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(estimateTokens(chunk.content) <= 50);
+    }
+    assert.equal(chunks.map((chunk) => chunk.content).join(" "), words);
+  });
+
+  it("splits tables by row and repeats the header in every chunk", () => {
+    const header = "| SKU | Color | Stock |\n| --- | --- | --- |";
+    const rows = Array.from(
+      { length: 30 },
+      (_, i) => `| TB-${1000 + i} | Natural | ${i * 10} |`,
+    );
+    const content = `## Inventory\n\n${header}\n${rows.join("\n")}`;
+
+    const chunks = chunkDocument(content, { maxTokens: 80 });
+
+    assert.ok(chunks.length > 1);
+    const seenRows: string[] = [];
+    for (const chunk of chunks) {
+      assert.ok(estimateTokens(chunk.content) <= 80);
+      assert.deepEqual(chunk.headingPath, ["Inventory"]);
+      const body = chunk.content.replace(/^## Inventory\n\n/, "");
+      assert.ok(body.startsWith(header), body);
+      seenRows.push(...body.slice(header.length + 1).split("\n"));
+    }
+    // Rows are neither dropped nor repeated across chunks
+    assert.deepEqual(seenRows, rows);
+  });
+});
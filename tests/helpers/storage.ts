@@ -0,0 +1,14 @@
+import { createStorage, prefixStorage } from "unstorage";
+
+/**
+ * Stand in for Nitro's auto-imported useStorage() with an in-memory storage,
+ * so modules that keep state in storage can run outside the server.
+ */
+export const useMemoryStorage = () => {
+  const storage = createStorage();
+  Object.assign(globalThis, {
+    useStorage: (base?: string) =>
+      base ? prefixStorage(storage, base) : storage,
+  });
+  return storage;
+};
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { createMockSageServer } from "../scripts/mock-sage";
+import {
+  SageConnectClient,
+  SageConnectError,
+} from "../server/lib/integrations/sage-connect";
+import { useMemoryStorage } from "./helpers/storage";
+
+const credentials = { acctId: 12345, loginId: "mock", key: "mock-key" };
+
+describe("SageConnectClient against the mock Sage server", () => {
+  const server = createMockSageServer({
+    credentials,
+    forcedErrors: new Map([[107, 10701]]),
+  });
+  let client: SageConnectClient;
+
+  before(async () => {
+    useMemoryStorage();
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    client = new SageConnectClient({
+      apiUrl: `http://127.0.0.1:${port}`,
+      accountId: String(credentials.acctId),
+      loginId: credentials.loginId,
+      apiKey: credentials.key,
+      cacheEnabled: false,
+    });
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("searches and normalizes the fixture products", async () => {
+    const response = await client.searchProducts({
+      search: { keywords: "tote" },
+      resultOptions: { limit: 2 },
+    });
+
+    assert.ok(response.products.length > 0);
+    assert.ok(response.products.length <= 2);
+    assert.equal(response.products[0].productId, "558123401");
+    assert.equal(response.products[0].prName, "Recycled Cotton Canvas Tote");
+  });
+
+  it("returns the requested product's detail", async () => {
+    const product = await client.getProductDetail("558123402");
+
+    assert.equal(product.productId, "558123402");
+    assert.ok(product.pricing.length > 0);
+  });
+
+  it("surfaces Sage error numbers as SageConnectError", async () => {
+    await assert.rejects(client.checkInventory("558123401"), (error) => {
+      assert.ok(error instanceof SageConnectError);
+      assert.equal(error.kind, "api");
+      assert.equal(error.errNum, 10701);
+      return true;
+    });
+  });
+
+  it("answers with a Sage error when there is no fixture", async () => {
+    const bare = createMockSageServer({
+      credentials,
+      fixturesDir: "/nonexistent",
+    });
+    await new Promise<void>((resolve) => bare.listen(0, resolve));
+    const { port } = bare.address() as AddressInfo;
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}`, {
+        method: "POST",
+        body: JSON.stringify({
+          serviceId: 105,
+          apiVer: 130,
+          auth: credentials,
+          prodEId: 1,
+        }),
+      });
+      assert.deepEqual(await response.json(), { errNum: 10501 });
+    } finally {
+      await new Promise<void>((resolve) => bare.close(() => resolve()));
+    }
+  });
+});
@@ -0,0 +1,240 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  categoriesResponseSchema,
+  inventoryResponseSchema,
+  productDetailResponseSchema,
+  productSearchResponseSchema,
+} from "../server/lib/integrations/sage-schemas";
+
+const issuesOf = (result: {
+  success: boolean;
+  error?: { issues: Array<{ path: PropertyKey[]; message: string }> };
+}) =>
+  (result.error?.issues ?? []).map(
+    (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+  );
+
+describe("productSearchResponseSchema", () => {
+  it("coerces stringly-typed numbers, flags and lists", () => {
+    const response = productSearchResponseSchema.parse({
+      totalFound: "27",
+      products: [
+        {
+          prodEId: "558123401",
+          spc: "GKRPD-TKXVB",
+          name: "Recycled Cotton Canvas Tote",
+          prc: "2.45 - 3.89",
+          supplier: { coName: "Example Bag Co.", suppId: 50000 },
+          colors: "Natural, Navy, Black",
+          verified: "Y",
+          envFriendly: 1,
+        },
+      ],
+    });
+
+    assert.equal(response.totalFound, 27);
+    assert.equal(response.offset, 0);
+    assert.equal(response.limit, 1);
+
+    const [product] = response.products;
+    assert.equal(product.productId, "558123401");
+    assert.equal(product.prodEId, 558123401);
+    assert.equal(product.prName, "Recycled Cotton Canvas Tote");
+    assert.equal(product.category, "General");
+    assert.deepEqual(product.colors, ["Natural", "Navy", "Black"]);
+    assert.deepEqual(product.supplier, {
+      coName: "Example Bag Co.",
+      coId: "50000",
+    });
+    assert.equal(product.verified, true);
+    assert.equal(product.envFriendly, true);
+  });
+
+  it("falls back to the SPC when a product has no prodEId", () => {
+    const response = productSearchResponseSchema.parse({
+      products: [{ spc: "JTNRP-QWEYC", prc: "$0.89" }],
+    });
+
+    assert.equal(response.products[0].productId, "JTNRP-QWEYC");
+    assert.equal(response.products[0].prName, "Promotional Product");
+    assert.equal(response.totalFound, 0);
+  });
+
+  it("drops invalid products and keeps the rest of the page", () => {
+    const response = productSearchResponseSchema.parse({
+      totalFound: 3,
+      products: [
+        { prodEId: 558123401, name: "Recycled Cotton Canvas Tote" },
+        { name: "Mystery item" },
+        { spc: "JTNRP-QWEYC", prodEId: "n/a" },
+        { spc: "JTNRP-QWEYD", name: "Bamboo Pen" },
+      ],
+    });
+
+    assert.deepEqual(
+      response.products.map((product) => product.productId),
+      ["558123401", "JTNRP-QWEYD"],
+    );
+    assert.deepEqual(response.invalidProducts, [
+      "products.1: Product is missing both prodEId and spc",
+      "products.2.prodEId: Expected a number, received 'n/a'",
+    ]);
+    assert.equal(response.totalFound, 3);
+    assert.equal(response.limit, 4);
+  });
+
+  it("reports numbers that can't be parsed", () => {
+    const result = productSearchResponseSchema.safeParse({
+      totalFound: "lots",
+      products: [],
+    });
+
+    assert.deepEqual(issuesOf(result), [
+      "totalFound: Expected a number, received 'lots'",
+    ]);
+  });
+});
+
+describe("productDetailResponseSchema", () => {
+  it("pairs quantity breaks with prices and drops blank columns", () => {
+    const product = productDetailResponseSchema.parse({
+      product: {
+        prodEId: 558123401,
+        prName: "Recycled Cotton Canvas Tote",
+        themes: "Eco-Friendly, Trade Show",
+        qty: ["100", "250", "500", 0, 0],
+        prc: ["3.89", "3.29", "2.85", "", ""],
+        pics: [{ url: "https://example.com/tote.jpg", hasLogo: "0" }],
+      },
+    });
+
+    assert.equal(product.productId, "558123401");
+    assert.deepEqual(product.pricing, [
+      { qty: 100, price: 3.89 },
+      { qty: 250, price: 3.29 },
+      { qty: 500, price: 2.85 },
+    ]);
+    assert.equal(product.prc, "2.85 - 3.89");
+    assert.deepEqual(product.themes, ["Eco-Friendly", "Trade Show"]);
+    assert.equal(product.thumbPic, "https://example.com/tote.jpg");
+    assert.deepEqual(product.images, ["https://example.com/tote.jpg"]);
+  });
+
+  it("accepts a product returned at the root", () => {
+    const product = productDetailResponseSchema.parse({
+      prodEId: "558123401",
+      prName: "Recycled Cotton Canvas Tote",
+    });
+
+    assert.equal(product.productId, "558123401");
+    assert.equal(product.prName, "Recycled Cotton Canvas Tote");
+  });
+
+  it("requires a product with a prodEId", () => {
+    assert.deepEqual(issuesOf(productDetailResponseSchema.safeParse({})), [
+      "prodEId: Invalid input",
+    ]);
+    assert.deepEqual(
+      issuesOf(
+        productDetailResponseSchema.safeParse({ product: { prName: "Tote" } }),
+      ),
+      ["prodEId: Invalid input"],
+    );
+  });
+});
+
+describe("inventoryResponseSchema", () => {
+  it("coerces stock counts and fills in missing ones", () => {
+    const response = inventoryResponseSchema("558123401").parse({
+      lastUpdated: "2025-01-15T14:30:00Z",
+      inventory: [
+        { sku: "TB-1450-NAT", available: "1,800", reserved: 200 },
+        { sku: 1450, onOrder: "2500", expectedDate: "2025-02-03" },
+      ],
+    });
+
+    assert.deepEqual(response, {
+      productId: "558123401",
+      lastUpdated: "2025-01-15T14:30:00Z",
+      inventory: [
+        {
+          sku: "TB-1450-NAT",
+          available: 1800,
+          reserved: 200,
+          onOrder: 0,
+          expectedDate: undefined,
+          warehouse: undefined,
+        },
+        {
+          sku: "1450",
+          available: 0,
+          reserved: 0,
+          onOrder: 2500,
+          expectedDate: "2025-02-03",
+          warehouse: undefined,
+        },
+      ],
+    });
+  });
+
+  it("rejects items without a SKU or with bad counts", () => {
+    const result = inventoryResponseSchema("1").safeParse({
+      inventory: [{ available: 5 }, { sku: "A", reserved: "n/a" }],
+    });
+
+    assert.deepEqual(issuesOf(result), [
+      "inventory.0.sku: Invalid input",
+      "inventory.1.reserved: Expected a number, received 'n/a'",
+    ]);
+  });
+});
+
+describe("categoriesResponseSchema", () => {
+  it("normalizes IDs, nested categories and theme objects", () => {
+    const response = categoriesResponseSchema.parse({
+      categories: [
+        {
+          id: 12,
+          name: "Bags",
+          parentId: "",
+          children: [{ id: "1201", name: "Tote Bags", parentId: 12 }],
+        },
+      ],
+      themes: ["Eco-Friendly", { name: "Trade Show" }],
+    });
+
+    assert.deepEqual(response, {
+      categories: [
+        {
+          id: "12",
+          name: "Bags",
+          parentId: undefined,
+          children: [
+            {
+              id: "1201",
+              name: "Tote Bags",
+              parentId: "12",
+              children: undefined,
+            },
+          ],
+        },
+      ],
+      themes: ["Eco-Friendly", "Trade Show"],
+    });
+  });
+
+  it("defaults missing lists and rejects unnamed categories", () => {
+    assert.deepEqual(categoriesResponseSchema.parse({}), {
+      categories: [],
+      themes: [],
+    });
+
+    const result = categoriesResponseSchema.safeParse({
+      categories: [{ id: 1 }],
+    });
+    assert.deepEqual(issuesOf(result), [
+      "categories.0.name: Invalid input: expected string, received undefined",
+    ]);
+  });
+});